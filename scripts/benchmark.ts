@@ -0,0 +1,110 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Measures how long one simulation tick takes with a crowded playfield. The
+ * harness keeps the field topped up with dogs, cats and blasts every tick
+ * (and keeps the cities standing), so the load stays roughly constant while
+ * it times `step()`.
+ *
+ *   npm run bench -- --enemies 1000 --blasts 100 --ticks 600
+ */
+
+import { parseArgs } from 'node:util';
+import { performance } from 'node:perf_hooks';
+import { FIXED_DT } from '../src/game/constants';
+import { EnemyRocket } from '../src/game/entities';
+import { createRng, nextInt, nextRange } from '../src/game/rng';
+import { Simulation, structurePoint, targetX } from '../src/game/simulation';
+import { GameStatus } from '../src/game/types';
+
+const { values } = parseArgs({
+  options: {
+    enemies: { type: 'string', default: '1000' },
+    blasts: { type: 'string', default: '100' },
+    refill: { type: 'string', default: '10' },
+    ticks: { type: 'string', default: '600' },
+    warmup: { type: 'string', default: '120' },
+    seed: { type: 'string', default: '1' },
+    width: { type: 'string', default: '1920' },
+    height: { type: 'string', default: '1080' }
+  }
+});
+
+function fail(message: string): never {
+  console.error(message);
+  process.exit(1);
+}
+
+function count(name: keyof typeof values, min: number): number {
+  const value = Number(values[name]);
+  if (!Number.isInteger(value) || value < min) fail(`--${name} must be an integer >= ${min}, got "${values[name]}"`);
+  return value;
+}
+
+const enemyTarget = count('enemies', 0);
+const blastTarget = count('blasts', 0);
+const refill = count('refill', 1);
+const ticks = count('ticks', 1);
+const warmup = count('warmup', 0);
+const seed = count('seed', 0);
+const width = count('width', 100);
+const height = count('height', 100);
+
+const sim = new Simulation(width, height);
+sim.startGame(seed, { mode: 'endless', difficulty: 'normal', players: 'solo' });
+const s = sim.state;
+const rng = createRng(seed);
+const targets = [...s.cities, ...s.batteries].map((_, i) => structurePoint(s, targetX(s, i)));
+
+/**
+ * Refills the field towards the requested load before a tick. Not timed.
+ * Dogs come back at most `refill` per tick, so chain reactions can't turn
+ * every tick into a thousand new explosions.
+ */
+function topUp() {
+  s.status = GameStatus.PLAYING;
+  s.enemiesToSpawn = 0;
+  s.cities = s.cities.map(() => true);
+  s.batteries = s.batteries.map(() => true);
+  s.ammo = s.ammo.map(() => 1_000_000);
+  for (let i = 0; i < refill && s.enemies.length < enemyTarget; i++) {
+    const targetIndex = nextInt(rng, targets.length);
+    const start = { x: nextRange(rng, 0, width), y: nextRange(rng, 0, height * 0.6) };
+    s.enemies.push(new EnemyRocket(start, targets[targetIndex], targetIndex, nextRange(rng, 20, 60)));
+  }
+  while (s.interceptors.length + s.explosions.length < blastTarget) {
+    if (!sim.fire(nextRange(rng, 0, width), nextRange(rng, 0, height - 80))) break;
+  }
+}
+
+// Warm up until the field is full, then a bit more for the JIT
+for (let i = 0; i < warmup || (i < warmup + 10_000 && s.enemies.length < enemyTarget); i++) {
+  topUp();
+  sim.step();
+}
+
+const times: number[] = [];
+let dogs = 0;
+let others = 0;
+for (let i = 0; i < ticks; i++) {
+  topUp();
+  dogs += s.enemies.length;
+  others += s.interceptors.length + s.explosions.length;
+  const start = performance.now();
+  sim.step();
+  times.push(performance.now() - start);
+}
+
+times.sort((a, b) => a - b);
+const percentile = (p: number) => times[Math.min(times.length - 1, Math.floor(times.length * p))];
+const mean = times.reduce((a, b) => a + b, 0) / times.length;
+const budget = FIXED_DT * 1000;
+const ms = (v: number) => `${v.toFixed(3)} ms`;
+
+const live = (n: number) => Math.round(n / ticks);
+console.log(`${ticks} ticks on ${width}x${height}, ~${live(dogs + others)} live entities per tick (${live(dogs)} dogs, ${live(others)} cats and blasts)`);
+console.log(`  mean ${ms(mean)}  p50 ${ms(percentile(0.5))}  p95 ${ms(percentile(0.95))}  p99 ${ms(percentile(0.99))}  max ${ms(times[times.length - 1])}`);
+console.log(`  mean is ${((mean / budget) * 100).toFixed(1)}% of the ${budget.toFixed(1)} ms tick budget`);
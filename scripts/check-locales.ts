@@ -0,0 +1,77 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Compares every locale bundle in src/locales with the English reference and
+ * reports missing keys, keys English doesn't have, and messages whose
+ * `{placeholders}` differ. Exits with 1 if any locale is missing keys or
+ * placeholders, or if the registry and the files disagree.
+ *
+ *   npm run check:i18n
+ */
+
+import { readdirSync, readFileSync } from 'node:fs';
+import { basename, join } from 'node:path';
+import { LOCALES, missingKeys } from '../src/i18n';
+
+const LOCALE_DIR = join(import.meta.dirname, '..', 'src', 'locales');
+
+type Bundle = Record<string, unknown>;
+
+function readBundle(file: string): Bundle {
+  return JSON.parse(readFileSync(join(LOCALE_DIR, file), 'utf8'));
+}
+
+/** Every `{name}` used by a message, across all plural forms. */
+function placeholders(message: unknown): Set<string> {
+  const texts = typeof message === 'string' ? [message] : Object.values(message ?? {}).filter(v => typeof v === 'string');
+  const names = new Set<string>();
+  for (const text of texts) {
+    for (const match of text.matchAll(/\{(\w+)\}/g)) names.add(match[1]);
+  }
+  return names;
+}
+
+function sameSet(a: Set<string>, b: Set<string>): boolean {
+  return a.size === b.size && [...a].every(v => b.has(v));
+}
+
+const reference = readBundle('en.json');
+const files = readdirSync(LOCALE_DIR).filter(f => f.endsWith('.json')).sort();
+const codes = new Set<string>(LOCALES.map(l => l.code));
+let failed = false;
+
+for (const code of codes) {
+  if (!files.includes(`${code}.json`)) {
+    console.log(`${code}: registered in src/i18n.ts but src/locales/${code}.json does not exist`);
+    failed = true;
+  }
+}
+
+for (const file of files) {
+  const code = basename(file, '.json');
+  const bundle = readBundle(file);
+  const problems: string[] = [];
+
+  if (!codes.has(code)) problems.push('not registered in LOCALES (src/i18n.ts)');
+  if (bundle.locale !== code) problems.push(`"locale" is ${JSON.stringify(bundle.locale)}, expected "${code}"`);
+
+  const missing = missingKeys(bundle);
+  if (missing.length > 0) problems.push(`missing ${missing.length}: ${missing.join(', ')}`);
+
+  const mismatched = Object.keys(reference).filter(key =>
+    !missing.includes(key) && !sameSet(placeholders(bundle[key]), placeholders(reference[key]))
+  );
+  if (mismatched.length > 0) problems.push(`placeholders differ: ${mismatched.join(', ')}`);
+
+  const extra = Object.keys(bundle).filter(key => !(key in reference));
+
+  if (problems.length > 0) failed = true;
+  const status = problems.length > 0 ? 'FAIL' : 'ok';
+  console.log(`${code}: ${status}${extra.length > 0 ? ` (unused: ${extra.join(', ')})` : ''}`);
+  for (const problem of problems) console.log(`  - ${problem}`);
+}
+
+process.exit(failed ? 1 : 0);
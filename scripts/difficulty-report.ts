@@ -0,0 +1,68 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Plays many seeded games with the autopilot and prints a per-round
+ * difficulty report as Markdown.
+ *
+ *   npm run report:difficulty -- --seeds 50 --skill ace --difficulty hard --out report.md
+ */
+
+import { writeFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { AUTOPILOT_SKILLS, type AutopilotSkillLevel } from '../src/game/autopilot';
+import { DEFAULT_BALANCE_OPTIONS, balanceReport, formatBalanceReport } from '../src/game/balance';
+import { DIFFICULTIES, isDifficulty, isGameMode, type Difficulty } from '../src/game/difficulty';
+
+const { values } = parseArgs({
+  options: {
+    seeds: { type: 'string', default: String(DEFAULT_BALANCE_OPTIONS.seeds.length) },
+    skill: { type: 'string', default: 'veteran' },
+    difficulty: { type: 'string', default: 'all' },
+    mode: { type: 'string', default: DEFAULT_BALANCE_OPTIONS.game.mode },
+    rounds: { type: 'string', default: String(DEFAULT_BALANCE_OPTIONS.maxRounds) },
+    out: { type: 'string' }
+  }
+});
+
+function fail(message: string): never {
+  console.error(message);
+  process.exit(1);
+}
+
+const seedCount = Number(values.seeds);
+const maxRounds = Number(values.rounds);
+if (!Number.isInteger(seedCount) || seedCount < 1) fail(`--seeds must be a positive integer, got "${values.seeds}"`);
+if (!Number.isInteger(maxRounds) || maxRounds < 1) fail(`--rounds must be a positive integer, got "${values.rounds}"`);
+if (!(AUTOPILOT_SKILLS as readonly string[]).includes(values.skill)) fail(`--skill must be one of ${AUTOPILOT_SKILLS.join(', ')}`);
+if (!isGameMode(values.mode)) fail(`Unknown --mode "${values.mode}"`);
+if (values.difficulty !== 'all' && !isDifficulty(values.difficulty)) fail(`--difficulty must be "all" or one of ${DIFFICULTIES.join(', ')}`);
+
+const difficulties: readonly Difficulty[] = values.difficulty === 'all' ? DIFFICULTIES : [values.difficulty as Difficulty];
+const skill = values.skill as AutopilotSkillLevel;
+
+const sections = [
+  '# Difficulty report',
+  '',
+  `${seedCount} seeds per difficulty, ${skill} autopilot, ${values.mode} mode, up to round ${maxRounds}.`
+];
+for (const difficulty of difficulties) {
+  const reports = balanceReport({
+    ...DEFAULT_BALANCE_OPTIONS,
+    seeds: Array.from({ length: seedCount }, (_, i) => i + 1),
+    game: { ...DEFAULT_BALANCE_OPTIONS.game, mode: values.mode, difficulty },
+    skill,
+    maxRounds
+  });
+  sections.push('', formatBalanceReport(difficulty, reports));
+}
+
+const report = sections.join('\n') + '\n';
+if (values.out) {
+  writeFileSync(values.out, report);
+  console.log(`Wrote ${values.out}`);
+} else {
+  process.stdout.write(report);
+}
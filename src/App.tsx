@@ -3,338 +3,314 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { motion, AnimatePresence } from 'motion/react';
-import { Shield, Target, Trophy, RotateCcw, Languages, Info, AlertTriangle } from 'lucide-react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { motion, AnimatePresence, MotionConfig } from 'motion/react';
+import { CalendarDays, Gauge, MapIcon, Shield, Target, Trophy, RotateCcw, Languages, Info, AlertTriangle, Film, Download, Upload, Pause, Play, Settings, Home, Volume2, VolumeX } from 'lucide-react';
+
+import { Announcer } from './accessibility/announcer';
+import { assistBlastScale, hasAssists, loadAccessibilitySettings, saveAccessibilitySettings, type AccessibilitySettings } from './accessibility/settings';
+import { AttractMode } from './game/attract';
+import { CITY_COUNT, PLAYFIELD_HEIGHT, PLAYFIELD_WIDTH, WIN_SCORE } from './game/constants';
+import { classicLayout, resolveLayout, sameLayout, type Level } from './game/level';
+import { ReplayPlayer, ReplayRecorder, parseReplay, type Replay } from './game/replay';
+import { Simulation, fireFloor, type GameState } from './game/simulation';
+import { DAILY_OPTIONS, dailyKey, dailySeed } from './game/daily';
+import { DEFAULT_GAME_OPTIONS, type GameOptions } from './game/difficulty';
+import { HudFeed, takeHudSnapshot, type HudSnapshot } from './game/hud';
+import { GameStatus, isInRound } from './game/types';
+import { AudioEngine } from './audio/engine';
+import { loadAudioSettings, saveAudioSettings, type AudioSettings } from './audio/settings';
+import { ControlsSettings } from './components/ControlsSettings';
+import { DailyResultPanel } from './components/DailyChallenge';
+import { Dialog } from './components/Dialog';
+import { GameOptionsPicker, optionsLabel } from './components/GameOptionsPicker';
+import { HighScoreTable, InitialsEntry } from './components/HighScores';
+import { LevelEditor } from './components/LevelEditor';
+import { ReplayViewer, downloadReplay } from './components/ReplayViewer';
+import { PlayerScores } from './components/PlayerScores';
+import { PowerUpTimers } from './components/PowerUpTimers';
+import { SettingsPanel } from './components/SettingsPanel';
+import { ThemeEditor } from './components/ThemeEditor';
+import { UpgradeBadges, UpgradeShop } from './components/UpgradeShop';
+import { loadBindings, saveBindings, slotBattery, type Bindings } from './input/bindings';
+import { InputController } from './input/controller';
+import { findDailyResult, getDailyResult, saveDailyResult } from './storage/daily';
+import { clearSavedGame, loadSavedGame, storeSavedGame } from './storage/savedGame';
+import { addHighScore, getBoard, loadHighScores, qualifies, type BoardId, type HighScoreBoards } from './storage/highScores';
+import { loadLevelLibrary, saveLevelLibrary, type LevelLibrary } from './storage/levels';
+import { activeTheme, loadThemeLibrary, saveThemeLibrary, type ThemeLibrary } from './storage/themes';
+import { EffectsLayer } from './render/effects';
+import { REDUCED_MOTION_QUERY, isReducedMotion, loadEffectsSettings, saveEffectsSettings, systemPrefersReducedMotion, type EffectsSettings } from './render/effectsSettings';
+import { DEFAULT_RENDER_OPTIONS, drawAttackAim, drawReticle, renderGame, renderPalette, type RenderOptions } from './render/renderer';
+import { drawSprite } from './render/sprites';
+import { themeTranslation } from './render/theme';
+import { beginViewport, fitViewport, syncBackingStore, toPlayfield, type Viewport } from './render/viewport';
+import { loadLangPreference, saveLangPreference } from './storage/language';
+import { DEFAULT_TRANSLATION, detectLang, format, loadTranslation, localeInfo, nextLang, plural, type Lang, type Translation } from './i18n';
 
-// --- Types & Constants ---
-
-type Point = { x: number; y: number };
+// --- Main Component ---
 
-interface Entity {
-  update(dt: number): boolean; // returns false if entity should be removed
-  draw(ctx: CanvasRenderingContext2D): void;
-}
+export default function App() {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // A picked language wins over the browser's; bundles load lazily, with
+  // English shown until the first one arrives
+  const [lang, setLang] = useState<Lang>(() => loadLangPreference() ?? detectLang());
+  const [translation, setTranslation] = useState<Translation>(DEFAULT_TRANSLATION);
+
+  // The active theme draws the game and can reword a few messages
+  const [themeLibrary, setThemeLibrary] = useState<ThemeLibrary>(loadThemeLibrary);
+  const theme = activeTheme(themeLibrary);
+  const t = useMemo(() => themeTranslation(translation, theme, lang), [translation, theme, lang]);
+  const langRef = useRef(lang);
+  langRef.current = lang;
+  const tRef = useRef(t);
+  tRef.current = t;
 
-enum GameStatus {
-  START = 'START',
-  PLAYING = 'PLAYING',
-  ROUND_END = 'ROUND_END',
-  GAME_OVER = 'GAME_OVER',
-  WIN = 'WIN'
-}
+  useEffect(() => {
+    let cancelled = false;
+    loadTranslation(lang).then(next => {
+      if (!cancelled) setTranslation(next);
+    });
+    document.documentElement.lang = lang;
+    return () => {
+      cancelled = true;
+    };
+  }, [lang]);
 
-const COLORS = {
-  bg: '#1a1a1a', // Dark gray background
-  enemy: '#ffffff', // White dog
-  interceptor: '#000000', // Black cat
-  explosion: '#cccccc', // Light gray explosion
-  city: '#888888', // Medium gray city
-  battery: '#444444', // Darker gray battery
-  text: '#ffffff',
-  target: '#ffffff'
-};
-
-// --- Helper for Pixel Art ---
-
-function drawPixelArt(ctx: CanvasRenderingContext2D, x: number, y: number, size: number, grid: number[][], color: string) {
-  const pixelSize = size / grid.length;
-  ctx.fillStyle = color;
-  for (let r = 0; r < grid.length; r++) {
-    for (let c = 0; c < grid[r].length; c++) {
-      if (grid[r][c] === 1) {
-        ctx.fillRect(x + c * pixelSize - size / 2, y + r * pixelSize - size / 2, pixelSize, pixelSize);
-      }
-    }
-  }
-}
+  const changeLang = (next: Lang) => {
+    setLang(next);
+    saveLangPreference(next);
+  };
 
-// Dog Grid (5x5)
-const DOG_GRID = [
-  [0, 1, 0, 1, 0],
-  [1, 1, 1, 1, 1],
-  [1, 0, 1, 0, 1],
-  [1, 1, 1, 1, 1],
-  [0, 1, 0, 1, 0]
-];
-
-// Cat Grid (5x5)
-const CAT_GRID = [
-  [1, 0, 0, 0, 1],
-  [1, 1, 1, 1, 1],
-  [1, 0, 1, 0, 1],
-  [1, 1, 1, 1, 1],
-  [0, 1, 1, 1, 0]
-];
-
-// Bone Grid (8x8)
-const BONE_GRID = [
-  [1, 1, 0, 0, 0, 0, 1, 1],
-  [1, 1, 0, 0, 0, 0, 1, 1],
-  [0, 0, 1, 1, 1, 1, 0, 0],
-  [0, 0, 1, 1, 1, 1, 0, 0],
-  [0, 0, 1, 1, 1, 1, 0, 0],
-  [0, 0, 1, 1, 1, 1, 0, 0],
-  [1, 1, 0, 0, 0, 0, 1, 1],
-  [1, 1, 0, 0, 0, 0, 1, 1]
-];
-
-// Fish Grid (8x8)
-const FISH_GRID = [
-  [0, 0, 1, 1, 1, 1, 0, 0],
-  [0, 1, 1, 1, 1, 1, 1, 0],
-  [1, 1, 1, 1, 1, 1, 1, 1],
-  [1, 1, 0, 1, 1, 1, 1, 1],
-  [1, 1, 1, 1, 1, 1, 1, 1],
-  [0, 1, 1, 1, 1, 1, 1, 0],
-  [0, 0, 1, 1, 1, 1, 0, 0],
-  [0, 0, 1, 0, 0, 1, 0, 0]
-];
-
-function drawPlanet(ctx: CanvasRenderingContext2D, x: number, y: number, r: number) {
-  ctx.fillStyle = '#444';
-  ctx.fillRect(x - r, y - r, r * 2, r * 2);
-  ctx.fillStyle = '#222';
-  ctx.fillRect(x - r * 0.6, y - r * 0.6, r * 0.4, r * 0.4);
-  ctx.fillRect(x + r * 0.2, y + r * 0.1, r * 0.5, r * 0.5);
-}
+  const changeThemeLibrary = (next: ThemeLibrary) => {
+    setThemeLibrary(next);
+    saveThemeLibrary(next);
+  };
 
-const WIN_SCORE = 1000;
-const INITIAL_AMMO = [20, 40, 20]; // Left, Center, Right
-
-// --- Translations ---
-
-const TRANSLATIONS = {
-  en: {
-    title: 'Sun & Light',
-    start: 'Start Game',
-    restart: 'Play Again',
-    score: 'Score',
-    round: 'Round',
-    ammo: 'Ammo',
-    win: 'Cats Win! Dried Fish Tonight!',
-    gameOver: 'Dogs Win! Bones Tonight!',
-    winDesc: 'You reached 1000 points and saved the remaining cities!',
-    lossDesc: 'All missile batteries have been destroyed.',
-    instructions: 'Click anywhere to launch interceptors. Aim ahead of enemy rockets!',
-    nextRound: 'Next Round',
-    totalScore: 'Total Score',
-    bonus: 'Ammo Bonus',
-  },
-  zh: {
-    title: 'Sun & Light',
-    start: '开始游戏',
-    restart: '再玩一次',
-    score: '得分',
-    round: '关卡',
-    ammo: '弹药',
-    win: '猫猫胜利，今晚吃小鱼干！',
-    gameOver: '狗狗胜利，今晚吃小骨头！',
-    winDesc: '你达到了1000分并保卫了剩余的城市！',
-    lossDesc: '所有导弹发射塔已被摧毁。',
-    instructions: '点击屏幕发射拦截导弹。请预判敌方火箭的路径！',
-    nextRound: '下一轮',
-    totalScore: '总得分',
-    bonus: '弹药奖励',
-  }
-};
-
-// --- Game Classes ---
-
-class EnemyRocket implements Entity {
-  start: Point;
-  end: Point;
-  pos: Point;
-  speed: number;
-  targetIndex: number; // Index of city or battery
-
-  constructor(width: number, height: number, targetX: number, targetIndex: number, speed: number) {
-    this.start = { x: Math.random() * width, y: 0 };
-    this.end = { x: targetX, y: height - 40 };
-    this.pos = { ...this.start };
-    this.targetIndex = targetIndex;
-    this.speed = speed * (2 / 3); // Slowed down by 1/3
+  // The simulation owns the authoritative game state. React only gets
+  // throttled HUD snapshots; the canvas loop reads the state directly.
+  const simRef = useRef<Simulation | null>(null);
+  const recorderRef = useRef<ReplayRecorder | null>(null);
+  if (!simRef.current) {
+    simRef.current = new Simulation(PLAYFIELD_WIDTH, PLAYFIELD_HEIGHT);
+    recorderRef.current = new ReplayRecorder(simRef.current, () => langRef.current);
   }
+  const sim = simRef.current;
+  const recorder = recorderRef.current!;
+
+  // Keyboard/gamepad aiming; the mouse keeps firing directly where clicked.
+  const [bindings, setBindings] = useState<Bindings>(loadBindings);
+  const [panel, setPanel] = useState<'settings' | 'controls' | 'themes' | 'levels' | null>(null);
+  const controllerRef = useRef<InputController | null>(null);
+  if (!controllerRef.current) controllerRef.current = new InputController(bindings);
+  const controller = controllerRef.current;
+
+  // While a replay is open the canvas shows its simulation instead.
+  const [replayPlayer, setReplayPlayer] = useState<ReplayPlayer | null>(null);
+  const [replayError, setReplayError] = useState<string | null>(null);
+  const playerRef = useRef<ReplayPlayer | null>(null);
+  playerRef.current = replayPlayer;
+  const replayInputRef = useRef<HTMLInputElement>(null);
+  const viewRef = useRef<Viewport | null>(null); // Where the playfield sat on the canvas last frame
+  const attractRef = useRef<AttractMode | null>(null);
+
+  const [hud, setHud] = useState<HudSnapshot>(() => takeHudSnapshot(sim.state));
+  const hudFeedRef = useRef<HudFeed | null>(null);
+  const { status, score, round, upgrades, playerScores } = hud;
+  const [options, setOptions] = useState<GameOptions>(DEFAULT_GAME_OPTIONS);
+  const current: GameOptions = { mode: hud.mode, difficulty: hud.difficulty, players: hud.players };
+
+  // Local high-score boards; `newRank` marks the entry saved for the last game
+  const [highScores, setHighScores] = useState<HighScoreBoards>(loadHighScores);
+  const [newRank, setNewRank] = useState<number | null>(null);
+  const board: BoardId = status === GameStatus.START ? options : current;
+
+  // The game in progress is saved between rounds and when the page goes away
+  const [savedGame, setSavedGame] = useState(loadSavedGame);
+
+  // Today's daily challenge attempt, if it has been started
+  const [dailyResult, setDailyResult] = useState(() => getDailyResult(dailyKey()));
+
+  // Palette, text size and assists. Bigger blasts are fixed per game; a game
+  // that had any assist on at some point gets its high score marked.
+  const [accessibility, setAccessibility] = useState<AccessibilitySettings>(loadAccessibilitySettings);
+  const accessibilityRef = useRef(accessibility);
+  accessibilityRef.current = accessibility;
+  const assistedRef = useRef(false);
+  const renderOptionsRef = useRef<RenderOptions>(DEFAULT_RENDER_OPTIONS);
+  const gameSpeedRef = useRef(1);
+  const renderOptions = useMemo<RenderOptions>(
+    () => ({ theme, highContrast: accessibility.palette === 'highContrast', textScale: accessibility.textScale }),
+    [theme, accessibility.palette, accessibility.textScale]
+  );
 
-  update(dt: number): boolean {
-    const dx = this.end.x - this.pos.x;
-    const dy = this.end.y - this.pos.y;
-    const dist = Math.sqrt(dx * dx + dy * dy);
-    
-    if (dist < 2) return false;
+  // Custom levels are test-played from the editor; their scores stay off the
+  // high-score boards, which assume the classic layout
+  const [levelLibrary, setLevelLibrary] = useState<LevelLibrary>(loadLevelLibrary);
+  const [customLevel, setCustomLevel] = useState(false);
+  const isCustomLevel = () => !sameLayout(sim.state.layout, classicLayout(sim.state.width, sim.state.height));
 
-    const vx = (dx / dist) * this.speed * dt;
-    const vy = (dy / dist) * this.speed * dt;
-    
-    this.pos.x += vx;
-    this.pos.y += vy;
-    
-    return true;
-  }
+  const changeAccessibility = (next: AccessibilitySettings) => {
+    setAccessibility(next);
+    saveAccessibilitySettings(next);
+    if (isInRound(sim.state.status) && hasAssists(next)) assistedRef.current = true;
+  };
 
-  draw(ctx: CanvasRenderingContext2D) {
-    ctx.beginPath();
-    ctx.strokeStyle = COLORS.enemy;
-    ctx.lineWidth = 3; // Doubled thickness
-    ctx.moveTo(this.start.x, this.start.y);
-    ctx.lineTo(this.pos.x, this.pos.y);
-    ctx.stroke();
-    
-    // Pixel Dog Head
-    drawPixelArt(ctx, this.pos.x, this.pos.y, 15, DOG_GRID, COLORS.enemy);
-  }
-}
+  useEffect(() => {
+    renderOptionsRef.current = renderOptions;
+    gameSpeedRef.current = accessibility.gameSpeed;
+    controller.aimAssist = accessibility.aimAssist;
+  }, [accessibility, renderOptions, controller]);
 
-class InterceptorMissile implements Entity {
-  start: Point;
-  target: Point;
-  pos: Point;
-  speed: number = 400;
+  // Screen-reader announcements; the last few stay in the live region
+  const [announcements, setAnnouncements] = useState<{ id: number; text: string }[]>([]);
+  useEffect(() => {
+    let next = 0;
+    const announcer = new Announcer(sim, () => tRef.current, text => {
+      next++;
+      setAnnouncements(list => [...list.slice(-2), { id: next, text }]);
+    });
+    return () => announcer.dispose();
+  }, [sim]);
 
-  constructor(start: Point, target: Point) {
-    this.start = { ...start };
-    this.target = { ...target };
-    this.pos = { ...start };
-  }
+  useEffect(() => {
+    // Keeps the attempt this daily game belongs to up to date
+    const recordDaily = (finished: boolean) => {
+      const s = sim.state;
+      const result = findDailyResult(s.rng.seed);
+      if (!result) return;
+      const next = { ...result, score: s.score, round: s.round, cities: [...s.cities], shots: s.totals.shots, hits: s.totals.hits, finished, assisted: assistedRef.current };
+      saveDailyResult(next);
+      setDailyResult(next);
+    };
 
-  update(dt: number): boolean {
-    const dx = this.target.x - this.pos.x;
-    const dy = this.target.y - this.pos.y;
-    const dist = Math.sqrt(dx * dx + dy * dy);
-    
-    if (dist < 5) return false;
+    return sim.subscribe(event => {
+      switch (event.type) {
+        case 'status':
+          if (event.status === GameStatus.ROUND_END) {
+            storeSavedGame(sim.state, recorder.hasGame ? recorder.toReplay() : null);
+          } else if (event.status === GameStatus.GAME_OVER || event.status === GameStatus.WIN) {
+            clearSavedGame();
+          } else if (event.status === GameStatus.START) {
+            setSavedGame(loadSavedGame());
+            setDailyResult(getDailyResult(dailyKey()));
+          }
+          if (sim.state.mode === 'daily' && (event.status === GameStatus.ROUND_END || event.status === GameStatus.GAME_OVER || event.status === GameStatus.WIN)) {
+            recordDaily(event.status !== GameStatus.ROUND_END);
+          }
+          break;
+        case 'gameStarted':
+          setNewRank(null);
+          setCustomLevel(isCustomLevel());
+          clearSavedGame();
+          assistedRef.current = hasAssists(accessibilityRef.current);
+          break;
+      }
+    });
+  }, [sim, recorder]);
 
-    const vx = (dx / dist) * this.speed * dt;
-    const vy = (dy / dist) * this.speed * dt;
-    
-    this.pos.x += vx;
-    this.pos.y += vy;
-    
-    return true;
-  }
+  useEffect(() => {
+    const feed = new HudFeed(sim, setHud);
+    hudFeedRef.current = feed;
+    feed.flush();
+    return () => {
+      feed.dispose();
+      hudFeedRef.current = null;
+    };
+  }, [sim]);
 
-  draw(ctx: CanvasRenderingContext2D) {
-    ctx.beginPath();
-    ctx.strokeStyle = COLORS.interceptor;
-    ctx.lineWidth = 2; // Doubled thickness
-    ctx.moveTo(this.start.x, this.start.y);
-    ctx.lineTo(this.pos.x, this.pos.y);
-    ctx.stroke();
-    
-    // Pixel Cat Head
-    drawPixelArt(ctx, this.pos.x, this.pos.y, 15, CAT_GRID, COLORS.interceptor);
-
-    // Target marker
-    ctx.strokeStyle = COLORS.target;
-    ctx.beginPath();
-    const s = 6;
-    ctx.moveTo(this.target.x - s, this.target.y - s);
-    ctx.lineTo(this.target.x + s, this.target.y + s);
-    ctx.moveTo(this.target.x + s, this.target.y - s);
-    ctx.lineTo(this.target.x - s, this.target.y + s);
-    ctx.stroke();
-  }
-}
+  useEffect(() => {
+    const saveOnExit = () => {
+      if (isInRound(sim.state.status)) {
+        storeSavedGame(sim.state, recorder.hasGame ? recorder.toReplay() : null);
+      }
+    };
+    const onVisibility = () => {
+      if (document.hidden) saveOnExit();
+    };
+    window.addEventListener('pagehide', saveOnExit);
+    document.addEventListener('visibilitychange', onVisibility);
+    return () => {
+      window.removeEventListener('pagehide', saveOnExit);
+      document.removeEventListener('visibilitychange', onVisibility);
+    };
+  }, [sim, recorder]);
 
-class Explosion implements Entity {
-  pos: Point;
-  radius: number = 0;
-  maxRadius: number = 45;
-  growing: boolean = true;
-  speed: number = 60;
+  const startGame = () => {
+    sim.startGame(undefined, options, assistBlastScale(accessibility));
+  };
 
-  constructor(pos: Point) {
-    this.pos = { ...pos };
-  }
+  // The attempt counts as soon as it starts, so quitting can't be used to reroll
+  const startDaily = () => {
+    const date = dailyKey();
+    if (getDailyResult(date)) return;
+    const seed = dailySeed(date);
+    saveDailyResult({ date, seed, score: 0, round: 1, cities: new Array(CITY_COUNT).fill(true), shots: 0, hits: 0, finished: false });
+    sim.startGame(seed, DAILY_OPTIONS, assistBlastScale(accessibility));
+  };
 
-  update(dt: number): boolean {
-    if (this.growing) {
-      this.radius += this.speed * dt;
-      if (this.radius >= this.maxRadius) {
-        this.growing = false;
-      }
-    } else {
-      this.radius -= (this.speed * 0.6) * dt;
+  const continueGame = () => {
+    const saved = loadSavedGame();
+    if (!saved) {
+      setSavedGame(null);
+      return;
     }
-    return this.radius > 0;
-  }
+    setNewRank(null);
+    recorder.resume(saved.replay);
+    sim.restore(saved.state);
+    setCustomLevel(isCustomLevel());
+    assistedRef.current = saved.state.blastScale !== 1 || hasAssists(accessibility);
+  };
 
-  draw(ctx: CanvasRenderingContext2D) {
-    const alpha = Math.max(0, Math.min(1, this.radius / this.maxRadius));
-    ctx.beginPath();
-    // Square explosion for pixel feel
-    const s = this.radius * 1.5;
-    ctx.fillStyle = `rgba(200, 200, 200, ${alpha * 0.8})`;
-    ctx.fillRect(this.pos.x - s/2, this.pos.y - s/2, s, s);
-    
-    const s2 = this.radius * 0.8;
-    ctx.fillStyle = `rgba(255, 255, 255, ${alpha * 0.5})`;
-    ctx.fillRect(this.pos.x - s2/2, this.pos.y - s2/2, s2, s2);
-  }
-}
+  const testPlay = (level: Level) => {
+    setPanel(null);
+    sim.startGame(undefined, options, assistBlastScale(accessibility), resolveLayout(level, PLAYFIELD_WIDTH, PLAYFIELD_HEIGHT));
+  };
 
-// --- Main Component ---
+  const changeLevelLibrary = (next: LevelLibrary) => {
+    setLevelLibrary(next);
+    saveLevelLibrary(next);
+  };
 
-export default function App() {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [lang, setLang] = useState<'en' | 'zh'>('zh');
-  const [status, setStatus] = useState<GameStatus>(GameStatus.START);
-  const [score, setScore] = useState(0);
-  const [round, setRound] = useState(1);
-  const [ammo, setAmmo] = useState([...INITIAL_AMMO]);
-  const [cities, setCities] = useState(new Array(6).fill(true));
-  const [batteries, setBatteries] = useState(new Array(3).fill(true));
-  
-  const t = TRANSLATIONS[lang];
-
-  // Game state refs for the loop
-  const stateRef = useRef({
-    enemies: [] as EnemyRocket[],
-    interceptors: [] as InterceptorMissile[],
-    explosions: [] as Explosion[],
-    lastTime: 0,
-    spawnTimer: 0,
-    enemiesToSpawn: 10,
-    enemiesDestroyed: 0,
-    roundActive: false,
-    width: 0,
-    height: 0
-  });
-
-  const initRound = useCallback(() => {
-    stateRef.current.enemies = [];
-    stateRef.current.interceptors = [];
-    stateRef.current.explosions = [];
-    stateRef.current.enemiesToSpawn = 10 + round * 5;
-    stateRef.current.enemiesDestroyed = 0;
-    stateRef.current.spawnTimer = 0;
-    stateRef.current.roundActive = true;
-    setAmmo([...INITIAL_AMMO]);
-  }, [round]);
+  const nextRound = () => {
+    sim.nextRound();
+  };
 
-  const startGame = () => {
-    setScore(0);
-    setRound(1);
-    setCities(new Array(6).fill(true));
-    setBatteries(new Array(3).fill(true));
-    setStatus(GameStatus.PLAYING);
-    initRound();
+  const submitHighScore = (initials: string) => {
+    const { boards, rank } = addHighScore(board, {
+      initials,
+      score: sim.state.score,
+      round: sim.state.round,
+      cities: sim.state.cities.filter(Boolean).length,
+      date: new Date().toISOString(),
+      lang,
+      assisted: assistedRef.current,
+    });
+    setHighScores(boards);
+    setNewRank(rank);
   };
 
-  const nextRound = () => {
-    // Add bonus for remaining ammo
-    const ammoBonus = ammo.reduce((a, b) => a + b, 0) * 5;
-    setScore(s => s + ammoBonus);
-    setRound(r => r + 1);
-    setStatus(GameStatus.PLAYING);
-    initRound();
+  const openReplay = (replay: Replay) => {
+    setReplayError(null);
+    setReplayPlayer(new ReplayPlayer(replay));
+  };
+
+  const importReplay = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      openReplay(parseReplay(await file.text()));
+    } catch (err) {
+      setReplayError(`${t.replayError}: ${err instanceof Error ? err.message : String(err)}`);
+    }
   };
 
   const handleCanvasClick = (e: React.MouseEvent | React.TouchEvent) => {
-    if (status !== GameStatus.PLAYING) return;
-    
+    if (playerRef.current) return;
     const canvas = canvasRef.current;
-    if (!canvas) return;
+    const view = viewRef.current;
+    if (!canvas || !view) return;
 
     const rect = canvas.getBoundingClientRect();
     let clientX, clientY;
@@ -347,40 +323,138 @@ export default function App() {
       clientY = (e as React.MouseEvent).clientY;
     }
 
-    const x = clientX - rect.left;
-    const y = clientY - rect.top;
+    // Clicks on the letterbox bars don't fire
+    const target = toPlayfield(view, clientX - rect.left, clientY - rect.top);
+    if (!target) return;
+    // In multiplayer the keyboard/gamepad crosshair belongs to player 2 and stays up
+    if (sim.state.players === 'solo') controller.handlePointer();
+    sim.fire(target.x, target.y);
+  };
+
+  const changeBindings = useCallback((next: Bindings) => {
+    setBindings(next);
+    saveBindings(next);
+    controller.bindings = next;
+  }, [controller]);
+
+  useEffect(() => {
+    if (panel) {
+      controller.reset();
+      return;
+    }
+    // Outside of play, let Enter/Space reach focused overlay buttons
+    const passThrough = (e: KeyboardEvent) =>
+      e.target instanceof HTMLElement &&
+      (e.target.closest('input, textarea, select, [data-capture-keys]') !== null ||
+        (e.target.closest('button') !== null && sim.state.status !== GameStatus.PLAYING &&
+          (e.code === 'Enter' || e.code === 'Space')));
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (playerRef.current || passThrough(e)) return;
+      if (controller.handleKeyDown(e)) e.preventDefault();
+    };
+    const onKeyUp = (e: KeyboardEvent) => {
+      controller.handleKeyUp(e);
+      if (!passThrough(e) && sim.state.status === GameStatus.PLAYING) e.preventDefault();
+    };
+    const onBlur = () => controller.reset();
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    window.addEventListener('blur', onBlur);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+      window.removeEventListener('blur', onBlur);
+    };
+  }, [sim, controller, panel]);
+
+  // Procedural audio; browsers keep it silent until the first gesture
+  const [audioSettings, setAudioSettings] = useState<AudioSettings>(loadAudioSettings);
+  const engineRef = useRef<AudioEngine | null>(null);
+  if (!engineRef.current) engineRef.current = new AudioEngine(audioSettings);
+  const engine = engineRef.current;
+
+  const changeAudio = (next: AudioSettings) => {
+    setAudioSettings(next);
+    saveAudioSettings(next);
+    engine.setSettings(next);
+  };
 
-    // Don't fire if clicking too low
-    if (y > stateRef.current.height - 60) return;
+  useEffect(() => {
+    const unlock = () => engine.unlock();
+    window.addEventListener('pointerdown', unlock, true);
+    window.addEventListener('keydown', unlock, true);
+    return () => {
+      window.removeEventListener('pointerdown', unlock, true);
+      window.removeEventListener('keydown', unlock, true);
+      engine.dispose();
+    };
+  }, [engine]);
+
+  // Particles, shake and flash; "less motion" follows the system unless overridden
+  const [effectsSettings, setEffectsSettings] = useState<EffectsSettings>(loadEffectsSettings);
+  const [systemReducedMotion, setSystemReducedMotion] = useState(systemPrefersReducedMotion);
+  const reducedMotion = isReducedMotion(effectsSettings, systemReducedMotion);
+  const effectsRef = useRef<EffectsLayer | null>(null);
+  if (!effectsRef.current) effectsRef.current = new EffectsLayer();
+  const effects = effectsRef.current;
+
+  const changeEffects = (next: EffectsSettings) => {
+    setEffectsSettings(next);
+    saveEffectsSettings(next);
+  };
 
-    // Find nearest battery with ammo
-    const batteryPositions = [
-      { x: 40, index: 0 },
-      { x: stateRef.current.width / 2, index: 1 },
-      { x: stateRef.current.width - 40, index: 2 }
-    ];
+  useEffect(() => {
+    effects.settings = effectsSettings;
+    effects.reducedMotion = reducedMotion;
+  }, [effects, effectsSettings, reducedMotion]);
 
-    let bestBattery = -1;
-    let minDist = Infinity;
+  useEffect(() => {
+    if (typeof window.matchMedia !== 'function') return;
+    const query = window.matchMedia(REDUCED_MOTION_QUERY);
+    const onChange = () => setSystemReducedMotion(query.matches);
+    query.addEventListener('change', onChange);
+    return () => query.removeEventListener('change', onChange);
+  }, []);
 
-    batteryPositions.forEach((bp, i) => {
-      if (batteries[i] && ammo[i] > 0) {
-        const d = Math.abs(x - bp.x);
-        if (d < minDist) {
-          minDist = d;
-          bestBattery = i;
-        }
-      }
-    });
+  useEffect(() => effects.attach(replayPlayer ? replayPlayer.sim : sim), [effects, sim, replayPlayer]);
 
-    if (bestBattery !== -1) {
-      const startPos = { x: batteryPositions[bestBattery].x, y: stateRef.current.height - 40 };
-      stateRef.current.interceptors.push(new InterceptorMissile(startPos, { x, y }));
-      
-      const newAmmo = [...ammo];
-      newAmmo[bestBattery]--;
-      setAmmo(newAmmo);
+  // The replay viewer gets the same sound as live play
+  useEffect(() => {
+    if (replayPlayer) {
+      engine.stopMusic();
+      return engine.attach(replayPlayer.sim);
     }
+    return engine.attach(sim);
+  }, [engine, sim, replayPlayer]);
+
+  // Never let the game run unattended in a background tab
+  useEffect(() => {
+    const autoPause = () => sim.pause();
+    const onVisibility = () => {
+      if (document.hidden) autoPause();
+    };
+    document.addEventListener('visibilitychange', onVisibility);
+    window.addEventListener('blur', autoPause);
+    return () => {
+      document.removeEventListener('visibilitychange', onVisibility);
+      window.removeEventListener('blur', autoPause);
+    };
+  }, [sim]);
+
+  const togglePause = useCallback(() => {
+    if (!sim.pause()) sim.resume();
+  }, [sim]);
+
+  // Restarting keeps the mode, difficulty and layout of the game being replaced
+  const restartGame = () => {
+    sim.startGame(undefined, current, assistBlastScale(accessibility), sim.state.layout);
+  };
+  // A daily run has one attempt only, so it can't be restarted
+  const isDaily = current.mode === 'daily';
+
+  const quitToTitle = () => {
+    clearSavedGame();
+    sim.quit();
   };
 
   useEffect(() => {
@@ -389,176 +463,76 @@ export default function App() {
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
+    // The backing store follows the CSS size and pixel ratio; the playfield
+    // itself never changes size, it is only scaled into the canvas.
+    let dpr = window.devicePixelRatio || 1;
     const resize = () => {
-      const container = canvas.parentElement;
-      if (container) {
-        canvas.width = container.clientWidth;
-        canvas.height = container.clientHeight;
-        stateRef.current.width = canvas.width;
-        stateRef.current.height = canvas.height;
-      }
+      dpr = window.devicePixelRatio || 1;
+      syncBackingStore(canvas, dpr);
     };
 
     window.addEventListener('resize', resize);
     resize();
 
-    let animationFrameId: number;
+    // Each state is fitted by its own size: replays and old saves may differ
+    const begin = (state: GameState) => {
+      const view = fitViewport(canvas.width, canvas.height, dpr, state.width, state.height);
+      viewRef.current = view;
+      beginViewport(ctx, view);
+    };
 
-    const loop = (time: number) => {
-      const dt = Math.min(0.1, (time - stateRef.current.lastTime) / 1000);
-      stateRef.current.lastTime = time;
-
-      // Clear
-      ctx.fillStyle = COLORS.bg;
-      ctx.fillRect(0, 0, canvas.width, canvas.height);
-
-      // Draw Space Background
-      ctx.fillStyle = '#ffffff';
-      for (let i = 0; i < 50; i++) {
-        const x = (Math.sin(i * 123.45) * 0.5 + 0.5) * canvas.width;
-        const y = (Math.cos(i * 678.90) * 0.5 + 0.5) * canvas.height;
-        const size = (i % 3) + 1;
-        ctx.fillRect(x, y, size, size);
-      }
-      drawPlanet(ctx, canvas.width * 0.8, canvas.height * 0.2, 40);
-      drawPlanet(ctx, canvas.width * 0.15, canvas.height * 0.4, 20);
-
-      if (status === GameStatus.PLAYING || status === GameStatus.ROUND_END) {
-        // Update & Draw Entities
-        stateRef.current.interceptors = stateRef.current.interceptors.filter(m => {
-          const alive = m.update(dt);
-          if (!alive) {
-            stateRef.current.explosions.push(new Explosion(m.target));
-          }
-          m.draw(ctx);
-          return alive;
-        });
+    // Draws a game with the effects layer; `dt` is 0 while it is paused
+    const show = (state: GameState, dt: number) => {
+      begin(state);
+      effects.update(dt, state);
+      const shake = effects.shakeOffset();
+      ctx.translate(shake.x, shake.y);
+      renderGame(ctx, state, renderOptionsRef.current);
+      effects.draw(ctx, state, renderPalette(renderOptionsRef.current));
+    };
 
-        stateRef.current.explosions = stateRef.current.explosions.filter(e => {
-          const alive = e.update(dt);
-          e.draw(ctx);
-          
-          // Collision with enemies
-          stateRef.current.enemies = stateRef.current.enemies.filter(enemy => {
-            const dx = enemy.pos.x - e.pos.x;
-            const dy = enemy.pos.y - e.pos.y;
-            const dist = Math.sqrt(dx * dx + dy * dy);
-            if (dist < e.radius) {
-              setScore(s => s + 20);
-              stateRef.current.enemiesDestroyed++;
-              return false;
-            }
-            return true;
-          });
-          
-          return alive;
-        });
+    let animationFrameId: number;
+    let lastTime = performance.now();
 
-        stateRef.current.enemies = stateRef.current.enemies.filter(enemy => {
-          const alive = enemy.update(dt);
-          if (!alive) {
-            // Hit target!
-            const idx = enemy.targetIndex;
-            if (idx < 6) {
-              // Hit city
-              setCities(prev => {
-                const next = [...prev];
-                next[idx] = false;
-                return next;
-              });
-            } else {
-              // Hit battery
-              const bIdx = idx - 6;
-              setBatteries(prev => {
-                const next = [...prev];
-                next[bIdx] = false;
-                return next;
-              });
-            }
-            stateRef.current.explosions.push(new Explosion(enemy.pos));
-          }
-          enemy.draw(ctx);
-          return alive;
+    const loop = (time: number) => {
+      const elapsed = (time - lastTime) / 1000;
+      lastTime = time;
+      hudFeedRef.current?.update(elapsed);
+
+      const player = playerRef.current;
+      if (player) {
+        player.advance(elapsed);
+        show(player.sim.state, player.paused || player.finished ? 0 : elapsed * player.speed);
+      } else if (sim.state.status === GameStatus.START) {
+        // Attract mode: the autopilot plays a demo behind the title screen
+        if (!attractRef.current) attractRef.current = new AttractMode();
+        const demo = attractRef.current;
+        // Nothing here takes keyboard/gamepad commands; drop them so the next game doesn't start paused or firing
+        controller.consumePause();
+        controller.update(elapsed, sim.state.width, sim.state.height, x => fireFloor(sim.state, x));
+        demo.advance(elapsed);
+        begin(demo.sim.state);
+        renderGame(ctx, demo.sim.state, renderOptionsRef.current);
+      } else {
+        if (controller.consumePause()) togglePause();
+        // Keyboard/gamepad is player 1 alone, player 2 in co-op, the attacker in versus
+        const players = sim.state.players;
+        const targets = players === 'versus' ? [] : sim.state.enemies;
+        controller.update(elapsed, sim.state.width, sim.state.height, x => fireFloor(sim.state, x), targets).forEach(f => {
+          if (players === 'versus') sim.attack(f.x);
+          else sim.fire(f.x, f.y, f.slot ? slotBattery(f.slot, sim.state.batteries.length) : undefined, players === 'coop' ? 1 : 0);
         });
-
-        // Spawning
-        if (status === GameStatus.PLAYING && stateRef.current.enemiesToSpawn > 0) {
-          stateRef.current.spawnTimer -= dt;
-          if (stateRef.current.spawnTimer <= 0) {
-            // Pick a target (city or battery)
-            const availableTargets: number[] = [];
-            cities.forEach((alive, i) => alive && availableTargets.push(i));
-            batteries.forEach((alive, i) => alive && availableTargets.push(i + 6));
-
-            if (availableTargets.length > 0) {
-              const targetIdx = availableTargets[Math.floor(Math.random() * availableTargets.length)];
-              let targetX = 0;
-              if (targetIdx < 6) {
-                // Cities are spaced out
-                const spacing = canvas.width / 9;
-                const cityPositions = [spacing * 1.5, spacing * 2.5, spacing * 3.5, spacing * 5.5, spacing * 6.5, spacing * 7.5];
-                targetX = cityPositions[targetIdx];
-              } else {
-                // Batteries
-                const bIdx = targetIdx - 6;
-                const bPos = [40, canvas.width / 2, canvas.width - 40];
-                targetX = bPos[bIdx];
-              }
-
-              const speed = 40 + round * 10;
-              stateRef.current.enemies.push(new EnemyRocket(canvas.width, canvas.height, targetX, targetIdx, speed));
-              stateRef.current.enemiesToSpawn--;
-              stateRef.current.spawnTimer = 1.5 - Math.min(1, round * 0.1) + Math.random();
-            }
-          }
-        }
-
-        // Check Round End
-        if (status === GameStatus.PLAYING && stateRef.current.enemiesToSpawn === 0 && stateRef.current.enemies.length === 0) {
-          setStatus(GameStatus.ROUND_END);
+        // A slower game speed only stretches wall-clock time; ticks stay the same
+        const gameElapsed = elapsed * gameSpeedRef.current;
+        sim.advance(gameElapsed);
+        show(sim.state, sim.state.status === GameStatus.PAUSED ? 0 : gameElapsed);
+        if (controller.reticleVisible && sim.state.status === GameStatus.PLAYING) {
+          const palette = renderPalette(renderOptionsRef.current);
+          if (players === 'versus') drawAttackAim(ctx, sim.state, controller.reticle.x, palette);
+          drawReticle(ctx, controller.reticle, palette, controller.locked);
         }
       }
-
-      // Draw Ground & Structures
-      const groundY = canvas.height - 20;
-      ctx.fillStyle = '#333';
-      ctx.fillRect(0, groundY, canvas.width, 20);
-
-      // Draw Cities
-      const spacing = canvas.width / 9;
-      const cityPositions = [spacing * 1.5, spacing * 2.5, spacing * 3.5, spacing * 5.5, spacing * 6.5, spacing * 7.5];
-      cityPositions.forEach((x, i) => {
-        if (cities[i]) {
-          ctx.fillStyle = COLORS.city;
-          // Pixelated buildings
-          ctx.fillRect(x - 15, groundY - 20, 10, 20);
-          ctx.fillRect(x - 5, groundY - 30, 10, 30);
-          ctx.fillRect(x + 5, groundY - 15, 10, 15);
-        } else {
-          ctx.fillStyle = '#111';
-          ctx.fillRect(x - 15, groundY - 5, 30, 5);
-        }
-      });
-
-      // Draw Batteries
-      const bPos = [40, canvas.width / 2, canvas.width - 40];
-      bPos.forEach((x, i) => {
-        if (batteries[i]) {
-          ctx.fillStyle = COLORS.battery;
-          // Pixelated battery
-          ctx.fillRect(x - 20, groundY - 15, 40, 15);
-          ctx.fillRect(x - 5, groundY - 25, 10, 10);
-          
-          // Ammo count text
-          ctx.fillStyle = COLORS.text;
-          ctx.font = '12px "Press Start 2P"';
-          ctx.textAlign = 'center';
-          ctx.fillText(ammo[i].toString(), x, groundY + 15);
-        } else {
-          ctx.fillStyle = '#111';
-          ctx.fillRect(x - 15, groundY - 5, 30, 5);
-        }
-      });
+      ctx.restore();
 
       animationFrameId = requestAnimationFrame(loop);
     };
@@ -568,41 +542,71 @@ export default function App() {
       window.removeEventListener('resize', resize);
       cancelAnimationFrame(animationFrameId);
     };
-  }, [status, round, cities, batteries, ammo]);
-
-  // Win/Loss Condition Checks
-  useEffect(() => {
-    if (status === GameStatus.PLAYING) {
-      if (score >= WIN_SCORE) {
-        setStatus(GameStatus.WIN);
-      }
-      if (batteries.every(b => !b)) {
-        setStatus(GameStatus.GAME_OVER);
-      }
-    }
-  }, [score, batteries, status]);
+  }, [sim, controller, effects, togglePause]);
 
   return (
     <div className="relative w-full h-screen bg-[#050505] text-white font-sans overflow-hidden flex flex-col">
+      <div role="status" aria-live="polite" className="sr-only">
+        {announcements.map(a => <p key={a.id}>{a.text}</p>)}
+      </div>
+
       {/* Header UI */}
       <div className="absolute top-0 left-0 w-full p-4 flex justify-between items-start z-10 pointer-events-none">
-        <div className="flex flex-col gap-2">
+        <div className="flex flex-col gap-2" style={{ zoom: accessibility.textScale }}>
           <div className="flex items-center gap-2 bg-black/60 backdrop-blur-md px-4 py-3 rounded-none border-2 border-white/20">
             <Trophy className="w-4 h-4 text-white" />
             <span className="text-[10px] tracking-tight">{t.score}: {score}</span>
+            {status !== GameStatus.START && <PlayerScores players={current.players} scores={playerScores} t={t} compact />}
           </div>
           <div className="flex items-center gap-2 bg-black/60 backdrop-blur-md px-4 py-3 rounded-none border-2 border-white/20">
             <Target className="w-4 h-4 text-white" />
             <span className="text-[10px] tracking-tight">{t.round}: {round}</span>
           </div>
+          {isInRound(status) && (
+            <PowerUpTimers shieldTime={hud.shieldTime} shieldedCities={hud.shieldedCities} slowMoTime={hud.slowMoTime} t={t} />
+          )}
+          {status !== GameStatus.START && (
+            <div className="flex items-center gap-2 bg-black/60 backdrop-blur-md px-4 py-3 rounded-none border-2 border-white/20">
+              <Gauge className="w-4 h-4 text-white" />
+              <span className="text-[8px] tracking-tight">{optionsLabel(current, t)}</span>
+            </div>
+          )}
+          {status !== GameStatus.START && (
+            <UpgradeBadges upgrades={upgrades} slowed={hud.slowed} t={t} />
+          )}
         </div>
 
         <div className="flex gap-2 pointer-events-auto">
+          {status === GameStatus.PLAYING && !replayPlayer && (
+            <button 
+              onClick={togglePause}
+              title={t.actionPause}
+              className="p-3 bg-white/10 hover:bg-white/20 rounded-none transition-colors backdrop-blur-md border-2 border-white/20"
+            >
+              <Pause className="w-5 h-5" />
+            </button>
+          )}
+          <button 
+            onClick={() => changeAudio({ ...audioSettings, muted: !audioSettings.muted })}
+            title={audioSettings.muted ? t.unmute : t.mute}
+            className="p-3 bg-white/10 hover:bg-white/20 rounded-none transition-colors backdrop-blur-md border-2 border-white/20"
+          >
+            {audioSettings.muted ? <VolumeX className="w-5 h-5" /> : <Volume2 className="w-5 h-5" />}
+          </button>
           <button 
-            onClick={() => setLang(l => l === 'en' ? 'zh' : 'en')}
+            onClick={() => setPanel('settings')}
+            title={t.settings}
             className="p-3 bg-white/10 hover:bg-white/20 rounded-none transition-colors backdrop-blur-md border-2 border-white/20"
+          >
+            <Settings className="w-5 h-5" />
+          </button>
+          <button 
+            onClick={() => changeLang(nextLang(lang))}
+            title={`${t.language}: ${localeInfo(lang).name}`}
+            className="p-3 bg-white/10 hover:bg-white/20 rounded-none transition-colors backdrop-blur-md border-2 border-white/20 flex items-center gap-2"
           >
             <Languages className="w-5 h-5" />
+            <span className="text-[8px] uppercase">{lang}</span>
           </button>
         </div>
       </div>
@@ -611,129 +615,335 @@ export default function App() {
       <div className="flex-1 relative cursor-crosshair touch-none">
         <canvas 
           ref={canvasRef}
+          role="img"
+          aria-label={t.playfield}
           onMouseDown={handleCanvasClick}
           onTouchStart={handleCanvasClick}
+          onMouseMove={() => sim.state.players === 'solo' && controller.handlePointer()}
           className="w-full h-full block"
         />
+        {replayPlayer && (
+          <ReplayViewer player={replayPlayer} t={t} onClose={() => setReplayPlayer(null)} />
+        )}
       </div>
 
       {/* Overlays */}
-      <AnimatePresence>
-        {status === GameStatus.START && (
-          <motion.div 
-            initial={{ opacity: 0 }}
-            animate={{ opacity: 1 }}
-            exit={{ opacity: 0 }}
-            className="absolute inset-0 bg-black/90 z-20 flex flex-col items-center justify-center p-6 text-center"
-          >
-            <motion.h1 
-              initial={{ y: -20 }}
-              animate={{ y: 0 }}
-              className="text-4xl md:text-6xl font-black mb-8 tracking-tighter uppercase leading-tight"
-            >
-              {t.title}
-            </motion.h1>
-            <p className="text-white/60 max-w-md mb-12 text-xs leading-relaxed">
-              {t.instructions}
-            </p>
-            <button 
-              onClick={startGame}
-              className="px-10 py-5 bg-white text-black font-bold text-sm rounded-none hover:bg-gray-200 transition-colors border-4 border-gray-400"
+      <MotionConfig reducedMotion={reducedMotion ? 'always' : 'never'}>
+        <AnimatePresence>
+          {!replayPlayer && status === GameStatus.START && (
+            <motion.div 
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              className="absolute inset-0 bg-black/75 z-20 flex flex-col items-center justify-center-safe p-6 text-center overflow-y-auto"
             >
-              {t.start}
-            </button>
-          </motion.div>
-        )}
-
-        {status === GameStatus.ROUND_END && (
-          <motion.div 
-            initial={{ opacity: 0, scale: 0.9 }}
-            animate={{ opacity: 1, scale: 1 }}
-            className="absolute inset-0 z-20 flex flex-col items-center justify-center p-6 bg-black/60 backdrop-blur-sm"
-          >
-            <div className="bg-zinc-900 border-4 border-white/20 p-10 rounded-none shadow-2xl text-center max-w-sm w-full">
-              <h2 className="text-xl font-bold mb-8 uppercase tracking-tight">{t.nextRound}</h2>
-              <div className="space-y-6 mb-10">
-                <div className="flex justify-between items-center text-white/60 text-[10px]">
-                  <span>{t.bonus}</span>
-                  <span className="text-white">+{ammo.reduce((a, b) => a + b, 0) * 5}</span>
-                </div>
-                <div className="h-0.5 bg-white/10" />
-                <div className="flex justify-between items-center text-sm font-bold">
-                  <span>{t.totalScore}</span>
-                  <span className="text-white">{score}</span>
-                </div>
+              <motion.h1 
+                initial={{ y: -20 }}
+                animate={{ y: 0 }}
+                className="text-4xl md:text-6xl font-black mb-8 tracking-tighter uppercase leading-tight"
+              >
+                {t.title}
+              </motion.h1>
+              <p className="text-white/60 max-w-md mb-4 text-xs leading-relaxed">
+                {t.instructions}
+              </p>
+              <p className="text-white/40 max-w-md mb-8 text-[8px] leading-relaxed">
+                {t.controlsHint}
+              </p>
+              <div className="mb-8">
+                <GameOptionsPicker options={options} t={t} onChange={setOptions} />
               </div>
               <button 
-                onClick={nextRound}
-                className="w-full py-5 bg-white text-black font-bold text-xs rounded-none hover:bg-gray-200 transition-colors border-4 border-gray-400 flex items-center justify-center gap-2"
+                onClick={startGame}
+                autoFocus
+                className="px-10 py-5 bg-white text-black font-bold text-sm rounded-none hover:bg-gray-200 transition-colors border-4 border-gray-400"
               >
-                <RotateCcw className="w-4 h-4" />
-                {t.nextRound}
+                {t.start}
               </button>
-            </div>
-          </motion.div>
-        )}
+              <div className="mt-6 flex flex-col items-center gap-3">
+                {dailyResult ? (
+                  <>
+                    <span className="text-white/40 text-[8px]">{t.dailyChallenge} · {dailyResult.date} · {dailyResult.finished ? `${t.score} ${dailyResult.score}` : t.dailyInProgress}</span>
+                    {dailyResult.finished && <DailyResultPanel result={dailyResult} theme={theme} t={t} />}
+                  </>
+                ) : (
+                  <button 
+                    onClick={startDaily}
+                    title={t.dailyDesc}
+                    className="px-6 py-3 bg-white/10 text-white text-[10px] rounded-none hover:bg-white/20 transition-colors border-2 border-white/20 flex items-center gap-2"
+                  >
+                    <CalendarDays className="w-3 h-3" />
+                    {t.dailyChallenge}
+                  </button>
+                )}
+              </div>
+              {savedGame && (
+                <button 
+                  onClick={continueGame}
+                  className="mt-6 px-6 py-3 bg-white/10 text-white text-[10px] rounded-none hover:bg-white/20 transition-colors border-2 border-white/20 flex items-center gap-2"
+                >
+                  <Play className="w-3 h-3" />
+                  {t.continueGame} · {t.round} {savedGame.state.round} · {savedGame.state.score}
+                </button>
+              )}
+              <button 
+                onClick={() => replayInputRef.current?.click()}
+                className={`${savedGame ? 'mt-2' : 'mt-6'} px-6 py-3 bg-white/10 text-white text-[10px] rounded-none hover:bg-white/20 transition-colors border-2 border-white/20 flex items-center gap-2`}
+              >
+                <Upload className="w-3 h-3" />
+                {t.importReplay}
+              </button>
+              <button 
+                onClick={() => setPanel('levels')}
+                className="mt-2 px-6 py-3 bg-white/10 text-white text-[10px] rounded-none hover:bg-white/20 transition-colors border-2 border-white/20 flex items-center gap-2"
+              >
+                <MapIcon className="w-3 h-3" />
+                {t.levelEditor}
+              </button>
+              <button 
+                onClick={() => setPanel('settings')}
+                className="mt-2 px-6 py-3 bg-white/10 text-white text-[10px] rounded-none hover:bg-white/20 transition-colors border-2 border-white/20 flex items-center gap-2"
+              >
+                <Settings className="w-3 h-3" />
+                {t.settings}
+              </button>
+              <input ref={replayInputRef} type="file" accept="application/json,.json" className="hidden" onChange={importReplay} />
+              {replayError && (
+                <p className="mt-4 text-gray-400 max-w-md text-[8px] leading-relaxed">{replayError}</p>
+              )}
+              <div className="mt-10 w-full flex justify-center">
+                <HighScoreTable entries={getBoard(highScores, board)} t={t} limit={5} />
+              </div>
+            </motion.div>
+          )}
+
+          {!replayPlayer && status === GameStatus.PAUSED && (
+            <motion.div 
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              className="absolute inset-0 z-20 flex flex-col items-center justify-center p-6 bg-black/60 backdrop-blur-sm"
+            >
+              <Dialog label={t.paused} className="bg-zinc-900 border-4 border-white/20 p-10 rounded-none shadow-2xl text-center max-w-sm w-full">
+                <h2 className="text-xl font-bold mb-8 uppercase tracking-tight">{t.paused}</h2>
+                <div className="space-y-3">
+                  <button 
+                    onClick={togglePause}
+                    autoFocus
+                    className="w-full py-4 bg-white text-black font-bold text-xs rounded-none hover:bg-gray-200 transition-colors border-4 border-gray-400 flex items-center justify-center gap-2"
+                  >
+                    <Play className="w-4 h-4" />
+                    {t.resume}
+                  </button>
+                  {!isDaily && (
+                    <button 
+                      onClick={restartGame}
+                      className="w-full py-3 bg-white/10 text-white text-[10px] rounded-none hover:bg-white/20 transition-colors border-2 border-white/20 flex items-center justify-center gap-2"
+                    >
+                      <RotateCcw className="w-3 h-3" />
+                      {t.restartGame}
+                    </button>
+                  )}
+                  <button 
+                    onClick={() => setPanel('settings')}
+                    className="w-full py-3 bg-white/10 text-white text-[10px] rounded-none hover:bg-white/20 transition-colors border-2 border-white/20 flex items-center justify-center gap-2"
+                  >
+                    <Settings className="w-3 h-3" />
+                    {t.settings}
+                  </button>
+                  <button 
+                    onClick={quitToTitle}
+                    className="w-full py-3 bg-white/10 text-white text-[10px] rounded-none hover:bg-white/20 transition-colors border-2 border-white/20 flex items-center justify-center gap-2"
+                  >
+                    <Home className="w-3 h-3" />
+                    {t.quitToTitle}
+                  </button>
+                </div>
+              </Dialog>
+            </motion.div>
+          )}
 
-        {(status === GameStatus.GAME_OVER || status === GameStatus.WIN) && (
-          <motion.div 
-            initial={{ opacity: 0 }}
-            animate={{ opacity: 1 }}
-            className="absolute inset-0 bg-black/95 z-30 flex flex-col items-center justify-center p-6 text-center"
-          >
-            <div className={`w-20 h-20 rounded-none border-4 flex items-center justify-center mb-8 ${status === GameStatus.WIN ? 'border-white text-white' : 'border-gray-600 text-gray-600'}`}>
-              {status === GameStatus.WIN ? <Shield className="w-10 h-10" /> : <AlertTriangle className="w-10 h-10" />}
-            </div>
-            <h2 className={`text-2xl md:text-4xl font-black mb-6 uppercase ${status === GameStatus.WIN ? 'text-white' : 'text-gray-500'}`}>
-              {status === GameStatus.WIN ? t.win : t.gameOver}
-            </h2>
-            
-            {/* Rotating Flashing Reward */}
-            <motion.div
-              animate={{ rotate: 360, opacity: [1, 0.5, 1] }}
-              transition={{ rotate: { duration: 4, repeat: Infinity, ease: "linear" }, opacity: { duration: 0.5, repeat: Infinity } }}
-              className="mb-10"
+          {!replayPlayer && status === GameStatus.ROUND_END && (
+            <motion.div 
+              initial={{ opacity: 0, scale: 0.9 }}
+              animate={{ opacity: 1, scale: 1 }}
+              className="absolute inset-0 z-20 flex flex-col items-center justify-center p-6 bg-black/60 backdrop-blur-sm"
             >
-              <canvas 
-                width={80} 
-                height={80} 
-                ref={(el) => {
-                  if (el) {
-                    const ctx = el.getContext('2d');
-                    if (ctx) {
-                      ctx.clearRect(0, 0, 80, 80);
-                      // Draw border
-                      const grid = status === GameStatus.WIN ? FISH_GRID : BONE_GRID;
-                      const color = status === GameStatus.WIN ? '#ffffff' : '#ffffff';
-                      
-                      // Draw shadow/border by drawing slightly larger or shifted
-                      ctx.fillStyle = '#000000';
-                      drawPixelArt(ctx, 42, 42, 60, grid, '#000000');
-                      drawPixelArt(ctx, 38, 38, 60, grid, '#000000');
-                      drawPixelArt(ctx, 40, 40, 60, grid, color);
-                    }
-                  }
-                }}
-              />
+              <Dialog label={t.nextRound} className="bg-zinc-900 border-4 border-white/20 p-10 rounded-none shadow-2xl text-center max-w-sm w-full max-h-full overflow-y-auto">
+                <h2 className="text-xl font-bold mb-8 uppercase tracking-tight">{t.nextRound}</h2>
+                <div className="space-y-6 mb-10">
+                  <div className="flex justify-between items-center text-white/60 text-[10px]">
+                    <span>{t.kills}</span>
+                    <span className="text-white">{hud.roundStats.kills}</span>
+                  </div>
+                  <div className="flex justify-between items-center text-white/60 text-[10px]">
+                    <span>{t.bestChain}</span>
+                    <span className="text-white">x{hud.roundStats.bestChain}</span>
+                  </div>
+                  <div className="flex justify-between items-center text-white/60 text-[10px]">
+                    <span>{t.bonus}</span>
+                    <span className="text-white">+{hud.roundBonus}</span>
+                  </div>
+                  <div className="h-0.5 bg-white/10" />
+                  <div className="flex justify-between items-center text-sm font-bold">
+                    <span>{t.totalScore}</span>
+                    <span className="text-white">{score}</span>
+                  </div>
+                  <div className="h-0.5 bg-white/10" />
+                  <UpgradeShop sim={sim} score={score} t={t} />
+                </div>
+                <button 
+                  onClick={nextRound}
+                  autoFocus
+                  className="w-full py-5 bg-white text-black font-bold text-xs rounded-none hover:bg-gray-200 transition-colors border-4 border-gray-400 flex items-center justify-center gap-2"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                  {t.nextRound}
+                </button>
+              </Dialog>
             </motion.div>
+          )}
 
-            <p className="text-white/60 max-w-md mb-10 text-[10px] leading-relaxed">
-              {status === GameStatus.WIN ? t.winDesc : t.lossDesc}
-            </p>
-            <div className="mb-12">
-              <span className="text-white/40 uppercase tracking-widest text-[8px] block mb-4">{t.totalScore}</span>
-              <span className="text-4xl font-bold text-white">{score}</span>
-            </div>
-            <button 
-              onClick={startGame}
-              className="px-10 py-5 bg-white text-black font-bold text-sm rounded-none hover:bg-gray-200 transition-colors border-4 border-gray-400 flex items-center gap-2"
+          {!replayPlayer && (status === GameStatus.GAME_OVER || status === GameStatus.WIN) && (
+            <motion.div 
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              className="absolute inset-0 bg-black/95 z-30 flex flex-col items-center justify-center-safe p-6 text-center overflow-y-auto"
             >
-              <RotateCcw className="w-4 h-4" />
-              {t.restart}
-            </button>
-          </motion.div>
-        )}
-      </AnimatePresence>
+              <div className={`w-20 h-20 rounded-none border-4 flex items-center justify-center mb-8 ${status === GameStatus.WIN ? 'border-white text-white' : 'border-gray-600 text-gray-600'}`}>
+                {status === GameStatus.WIN ? <Shield className="w-10 h-10" /> : <AlertTriangle className="w-10 h-10" />}
+              </div>
+              <h2 className={`text-2xl md:text-4xl font-black mb-6 uppercase ${status === GameStatus.WIN ? 'text-white' : 'text-gray-500'}`}>
+                {status === GameStatus.WIN ? t.win : t.gameOver}
+              </h2>
+              <p className="text-white/40 uppercase tracking-widest text-[8px] -mt-2 mb-6">
+                {optionsLabel(current, t)} · {t.round} {round}
+              </p>
+            
+              {/* Rotating Flashing Reward. MotionConfig stops the spin under reduced motion, but not the flash */}
+              <motion.div
+                animate={reducedMotion ? { rotate: 360 } : { rotate: 360, opacity: [1, 0.5, 1] }}
+                transition={{ rotate: { duration: 4, repeat: Infinity, ease: "linear" }, opacity: { duration: 0.5, repeat: Infinity } }}
+                className="mb-10"
+              >
+                <canvas 
+                  width={80} 
+                  height={80} 
+                  ref={(el) => {
+                    if (el) {
+                      const ctx = el.getContext('2d');
+                      if (ctx) {
+                        ctx.clearRect(0, 0, 80, 80);
+                        const sprite = status === GameStatus.WIN ? theme.sprites.fish : theme.sprites.bone;
+
+                        // Draw shadow/border by drawing slightly shifted silhouettes
+                        drawSprite(ctx, 42, 42, 60, sprite, theme.inks, '#000000');
+                        drawSprite(ctx, 38, 38, 60, sprite, theme.inks, '#000000');
+                        drawSprite(ctx, 40, 40, 60, sprite, theme.inks);
+                      }
+                    }
+                  }}
+                />
+              </motion.div>
+
+              <p className="text-white/60 max-w-md mb-10 text-[10px] leading-relaxed">
+                {status === GameStatus.WIN
+                  ? format(t.winDesc, { points: WIN_SCORE, cities: plural(t, t.citiesSaved, hud.citiesLeft) })
+                  : t.lossDesc}
+              </p>
+              <div className="mb-12">
+                <span className="text-white/40 uppercase tracking-widest text-[8px] block mb-4">{t.totalScore}</span>
+                <span className="text-4xl font-bold text-white">{score}</span>
+              </div>
+              {current.players !== 'solo' && (
+                <div className="mb-12">
+                  <PlayerScores players={current.players} scores={playerScores} t={t} />
+                </div>
+              )}
+              {isDaily && dailyResult && (
+                <div className="mb-10">
+                  <DailyResultPanel result={dailyResult} theme={theme} t={t} />
+                </div>
+              )}
+              <div className="mb-12 w-full flex justify-center">
+                {customLevel ? (
+                  <p className="text-white/40 max-w-md text-[8px] leading-relaxed">{t.customLevelNote}</p>
+                ) : newRank === null && current.players === 'solo' && qualifies(highScores, board, score) ? (
+                  <InitialsEntry t={t} onSubmit={submitHighScore} />
+                ) : (
+                  <HighScoreTable entries={getBoard(highScores, board)} t={t} highlight={newRank ?? -1} />
+                )}
+              </div>
+              <button 
+                onClick={isDaily ? quitToTitle : restartGame}
+                autoFocus
+                className="px-10 py-5 bg-white text-black font-bold text-sm rounded-none hover:bg-gray-200 transition-colors border-4 border-gray-400 flex items-center gap-2"
+              >
+                {isDaily ? <Home className="w-4 h-4" /> : <RotateCcw className="w-4 h-4" />}
+                {isDaily ? t.quitToTitle : t.restart}
+              </button>
+              {customLevel && (
+                <button 
+                  onClick={() => setPanel('levels')}
+                  className="mt-6 px-6 py-3 bg-white/10 text-white text-[10px] rounded-none hover:bg-white/20 transition-colors border-2 border-white/20 flex items-center gap-2"
+                >
+                  <MapIcon className="w-3 h-3" />
+                  {t.editLevel}
+                </button>
+              )}
+              {recorder.hasGame && (
+                <div className="mt-6 flex gap-2">
+                  <button 
+                    onClick={() => openReplay(recorder.toReplay())}
+                    className="px-6 py-3 bg-white/10 text-white text-[10px] rounded-none hover:bg-white/20 transition-colors border-2 border-white/20 flex items-center gap-2"
+                  >
+                    <Film className="w-3 h-3" />
+                    {t.watchReplay}
+                  </button>
+                  <button 
+                    onClick={() => downloadReplay(recorder.toReplay())}
+                    className="px-6 py-3 bg-white/10 text-white text-[10px] rounded-none hover:bg-white/20 transition-colors border-2 border-white/20 flex items-center gap-2"
+                  >
+                    <Download className="w-3 h-3" />
+                    {t.exportReplay}
+                  </button>
+                </div>
+              )}
+            </motion.div>
+          )}
+        </AnimatePresence>
+      </MotionConfig>
+
+      {panel === 'settings' && (
+        <SettingsPanel
+          audio={audioSettings}
+          effects={effectsSettings}
+          accessibility={accessibility}
+          t={t}
+          onAudioChange={changeAudio}
+          onEffectsChange={changeEffects}
+          onAccessibilityChange={changeAccessibility}
+          onOpenControls={() => setPanel('controls')}
+          onOpenThemes={() => setPanel('themes')}
+          onClose={() => setPanel(null)}
+        />
+      )}
+      {panel === 'themes' && (
+        <ThemeEditor library={themeLibrary} lang={lang} t={translation} onChange={changeThemeLibrary} onClose={() => setPanel('settings')} />
+      )}
+      {panel === 'levels' && (
+        <LevelEditor
+          library={levelLibrary}
+          renderOptions={renderOptions}
+          t={t}
+          onChange={changeLevelLibrary}
+          onTestPlay={testPlay}
+          onClose={() => setPanel(null)}
+        />
+      )}
+      {panel === 'controls' && (
+        <ControlsSettings bindings={bindings} t={t} onChange={changeBindings} onClose={() => setPanel('settings')} />
+      )}
 
       {/* Bottom Info Bar */}
       <div className="bg-black border-t-4 border-white/10 p-4 flex justify-center gap-8 items-center z-10">
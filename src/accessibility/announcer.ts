@@ -0,0 +1,89 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { format, plural, type Translation } from '../i18n';
+import type { Simulation } from '../game/simulation';
+import { GameStatus, type GameEvent, type PowerUpType } from '../game/types';
+
+/** Total interceptors left at which "low ammo" is announced. */
+export const LOW_AMMO = 5;
+
+function total(ammo: number[]): number {
+  return ammo.reduce((a, b) => a + b, 0);
+}
+
+function powerUpMessage(kind: PowerUpType, t: Translation): string {
+  switch (kind) {
+    case 'shield': return t.srShield;
+    case 'emp': return t.srEmp;
+    case 'slowMo': return t.srSlowMo;
+    case 'ammo': return t.srAmmoCrate;
+  }
+}
+
+/**
+ * Turns what happens in a live game into short sentences for a screen
+ * reader's live region: round start and end, lost cities and batteries,
+ * running low on interceptors, power-ups, and the outcome. Everything else is left to
+ * the canvas.
+ */
+export class Announcer {
+  private sim: Simulation;
+  private getT: () => Translation;
+  private announce: (message: string) => void;
+  private status: GameStatus;
+  private ammo = 0;
+  private unsubscribe: () => void;
+
+  constructor(sim: Simulation, getT: () => Translation, announce: (message: string) => void) {
+    this.sim = sim;
+    this.getT = getT;
+    this.announce = announce;
+    this.status = sim.state.status;
+    this.ammo = total(sim.state.ammo);
+    this.unsubscribe = sim.subscribe(event => this.handle(event));
+  }
+
+  private handle(event: GameEvent) {
+    const s = this.sim.state;
+    const t = this.getT();
+    switch (event.type) {
+      case 'status': {
+        const previous = this.status;
+        this.status = event.status;
+        if (event.status === GameStatus.PLAYING && previous !== GameStatus.PAUSED) {
+          this.announce(plural(t, t.srRoundStart, s.wave.enemies, { round: s.round }));
+        } else if (event.status === GameStatus.ROUND_END && previous === GameStatus.PLAYING) {
+          this.announce(format(t.srRoundCleared, { round: s.round, bonus: s.roundBonus }));
+        } else if (event.status === GameStatus.WIN || event.status === GameStatus.GAME_OVER) {
+          this.announce(format(t.srOutcome, { outcome: event.status === GameStatus.WIN ? t.win : t.gameOver, score: s.score }));
+        }
+        break;
+      }
+      case 'cityDestroyed':
+        this.announce(plural(t, t.srCityLost, s.cities.filter(Boolean).length));
+        break;
+      case 'batteryDestroyed':
+        this.announce(plural(t, t.srBatteryLost, s.batteries.filter(Boolean).length));
+        break;
+      case 'powerUpCollected':
+        this.announce(powerUpMessage(event.kind, t));
+        break;
+      case 'ammo': {
+        // Only a shot can cross the threshold downwards; refills never announce
+        const previous = this.ammo;
+        this.ammo = total(event.ammo);
+        if (s.status !== GameStatus.PLAYING || this.ammo >= previous) break;
+        if (this.ammo === 0) this.announce(t.srOutOfAmmo);
+        else if (this.ammo <= LOW_AMMO && previous > LOW_AMMO) this.announce(plural(t, t.srLowAmmo, this.ammo));
+        break;
+      }
+    }
+  }
+
+  dispose() {
+    this.unsubscribe();
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { isPaletteId, type PaletteId } from '../render/palette';
+
+export const TEXT_SCALES = [1, 1.25, 1.5, 2] as const;
+export const GAME_SPEEDS = [0.5, 0.75, 1] as const;
+
+/** Radius multiplier for player blasts while "bigger blasts" is on. */
+export const ASSIST_BLAST_SCALE = 1.5;
+
+export interface AccessibilitySettings {
+  palette: PaletteId;
+  textScale: number; // One of TEXT_SCALES; HUD and canvas labels
+  gameSpeed: number; // One of GAME_SPEEDS; wall-clock rate the game runs at
+  biggerBlasts: boolean; // Fixed when a game starts
+  aimAssist: boolean; // Keyboard/gamepad crosshair clings to nearby dogs
+}
+
+const STORAGE_KEY = 'sun-light.accessibility';
+const STORAGE_VERSION = 1;
+
+export const DEFAULT_ACCESSIBILITY_SETTINGS: AccessibilitySettings = {
+  palette: 'standard',
+  textScale: 1,
+  gameSpeed: 1,
+  biggerBlasts: false,
+  aimAssist: false
+};
+
+function pickOption(options: readonly number[], value: unknown, fallback: number): number {
+  return options.includes(value as number) ? (value as number) : fallback;
+}
+
+/** Reads saved settings, falling back to the defaults for anything missing or malformed. */
+export function loadAccessibilitySettings(): AccessibilitySettings {
+  const defaults = DEFAULT_ACCESSIBILITY_SETTINGS;
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return { ...defaults };
+    const data = JSON.parse(raw);
+    if (data?.version !== STORAGE_VERSION) return { ...defaults };
+    return {
+      palette: isPaletteId(data.palette) ? data.palette : defaults.palette,
+      textScale: pickOption(TEXT_SCALES, data.textScale, defaults.textScale),
+      gameSpeed: pickOption(GAME_SPEEDS, data.gameSpeed, defaults.gameSpeed),
+      biggerBlasts: data.biggerBlasts === true,
+      aimAssist: data.aimAssist === true
+    };
+  } catch {
+    return { ...defaults };
+  }
+}
+
+export function saveAccessibilitySettings(settings: AccessibilitySettings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: STORAGE_VERSION, ...settings }));
+  } catch {
+    // Storage full or disabled; settings just won't persist
+  }
+}
+
+/** Blast multiplier a new game starts with. */
+export function assistBlastScale(settings: AccessibilitySettings): number {
+  return settings.biggerBlasts ? ASSIST_BLAST_SCALE : 1;
+}
+
+/** Whether any option that makes the game easier is on. Palette and text size don't count. */
+export function hasAssists(settings: AccessibilitySettings): boolean {
+  return settings.gameSpeed < 1 || settings.biggerBlasts || settings.aimAssist;
+}
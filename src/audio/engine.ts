@@ -0,0 +1,219 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Simulation } from '../game/simulation';
+import { GameStatus, type PowerUpType } from '../game/types';
+import { ChiptuneLoop } from './music';
+import type { AudioSettings } from './settings';
+
+const MAX_WHISTLES = 4; // Falling whistles get muddy fast; cap how many overlap
+
+/**
+ * Procedural sound for the game: every effect is synthesized on the fly with
+ * oscillators and filtered noise, so there are no audio assets to load.
+ */
+export class AudioEngine {
+  private ctx: AudioContext | null = null;
+  private master: GainNode | null = null;
+  private sfx: GainNode | null = null;
+  private musicBus: GainNode | null = null;
+  private noise: AudioBuffer | null = null;
+  private music: ChiptuneLoop | null = null;
+  private whistles = 0;
+  private settings: AudioSettings;
+
+  constructor(settings: AudioSettings) {
+    this.settings = settings;
+  }
+
+  /**
+   * Creates or resumes the audio context. Browsers only allow this from a
+   * user gesture, so call it from click/key handlers.
+   */
+  unlock() {
+    if (!this.ctx) {
+      const Ctx = window.AudioContext ?? (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+      if (!Ctx) return;
+      const ctx = new Ctx();
+      this.ctx = ctx;
+      this.master = ctx.createGain();
+      this.master.connect(ctx.destination);
+      this.sfx = ctx.createGain();
+      this.sfx.connect(this.master);
+      this.musicBus = ctx.createGain();
+      this.musicBus.connect(this.master);
+      this.music = new ChiptuneLoop(ctx, this.musicBus);
+
+      // One second of white noise, reused by every noisy effect
+      this.noise = ctx.createBuffer(1, ctx.sampleRate, ctx.sampleRate);
+      const data = this.noise.getChannelData(0);
+      for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+
+      this.applySettings();
+    }
+    if (this.ctx.state === 'suspended') {
+      void this.ctx.resume();
+    }
+  }
+
+  setSettings(settings: AudioSettings) {
+    this.settings = settings;
+    this.applySettings();
+  }
+
+  private applySettings() {
+    if (!this.ctx || !this.master || !this.sfx || !this.musicBus) return;
+    const now = this.ctx.currentTime;
+    const { master, sfx, music, muted } = this.settings;
+    this.master.gain.setTargetAtTime(muted ? 0 : master, now, 0.02);
+    this.sfx.gain.setTargetAtTime(sfx, now, 0.02);
+    this.musicBus.gain.setTargetAtTime(music, now, 0.02);
+  }
+
+  // --- Building Blocks ---
+
+  private tone(type: OscillatorType, from: number, to: number, start: number, duration: number, gain: number) {
+    if (!this.ctx || !this.sfx) return;
+    const osc = this.ctx.createOscillator();
+    const env = this.ctx.createGain();
+    osc.type = type;
+    osc.frequency.setValueAtTime(from, start);
+    osc.frequency.exponentialRampToValueAtTime(to, start + duration);
+    env.gain.setValueAtTime(gain, start);
+    env.gain.exponentialRampToValueAtTime(0.001, start + duration);
+    osc.connect(env).connect(this.sfx);
+    osc.start(start);
+    osc.stop(start + duration);
+    return osc;
+  }
+
+  private noiseBurst(filter: BiquadFilterType, from: number, to: number, start: number, duration: number, gain: number) {
+    if (!this.ctx || !this.sfx || !this.noise) return;
+    const src = this.ctx.createBufferSource();
+    src.buffer = this.noise;
+    src.loop = true;
+    const biquad = this.ctx.createBiquadFilter();
+    biquad.type = filter;
+    biquad.frequency.setValueAtTime(from, start);
+    biquad.frequency.exponentialRampToValueAtTime(to, start + duration);
+    const env = this.ctx.createGain();
+    env.gain.setValueAtTime(gain, start);
+    env.gain.exponentialRampToValueAtTime(0.001, start + duration);
+    src.connect(biquad).connect(env).connect(this.sfx);
+    src.start(start);
+    src.stop(start + duration);
+  }
+
+  private notes(type: OscillatorType, freqs: number[], noteLength: number, gain: number) {
+    if (!this.ctx) return;
+    const now = this.ctx.currentTime;
+    freqs.forEach((f, i) => this.tone(type, f, f * 0.99, now + i * noteLength, noteLength * 1.2, gain));
+  }
+
+  // --- Effects ---
+
+  launch() {
+    if (!this.ctx) return;
+    this.noiseBurst('bandpass', 3000, 600, this.ctx.currentTime, 0.25, 0.25);
+  }
+
+  /** Bigger blasts are louder, lower and longer. */
+  boom(radius: number) {
+    if (!this.ctx) return;
+    const scale = Math.max(0.4, Math.min(2, radius / 45));
+    const now = this.ctx.currentTime;
+    this.noiseBurst('lowpass', 1800 / scale, 80, now, 0.3 + 0.3 * scale, 0.35 * scale);
+    this.tone('sine', 120 / scale, 35, now, 0.25 + 0.2 * scale, 0.4 * scale);
+  }
+
+  whistle() {
+    if (!this.ctx || this.whistles >= MAX_WHISTLES) return;
+    this.whistles++;
+    const osc = this.tone('triangle', 1800, 500, this.ctx.currentTime, 1.4, 0.04);
+    if (osc) osc.onended = () => this.whistles--;
+    else this.whistles--;
+  }
+
+  cityLost() {
+    this.notes('square', [392, 330, 262, 196], 0.09, 0.12);
+    if (this.ctx) this.noiseBurst('lowpass', 800, 60, this.ctx.currentTime, 0.6, 0.3);
+  }
+
+  batteryLost() {
+    this.notes('sawtooth', [147, 110, 73], 0.14, 0.15);
+  }
+
+  powerUp(kind: PowerUpType) {
+    if (kind === 'emp') {
+      this.notes('sawtooth', [1047, 523, 262, 131], 0.06, 0.12);
+      if (this.ctx) this.noiseBurst('highpass', 4000, 1200, this.ctx.currentTime, 0.4, 0.2);
+    } else {
+      this.notes('square', [659, 880, 1175], 0.07, 0.1);
+    }
+  }
+
+  jingle(win: boolean) {
+    if (win) {
+      this.notes('square', [523, 659, 784, 1047, 784, 1047], 0.12, 0.12);
+    } else {
+      this.notes('square', [392, 370, 349, 330, 262], 0.2, 0.12);
+    }
+  }
+
+  startMusic(round: number) {
+    this.music?.start(round);
+  }
+
+  stopMusic() {
+    this.music?.stop();
+  }
+
+  // --- Wiring ---
+
+  /** Plays the matching sound for everything `sim` reports. Returns an unsubscribe function. */
+  attach(sim: Simulation): () => void {
+    return sim.subscribe(event => {
+      switch (event.type) {
+        case 'interceptorLaunched':
+          this.launch();
+          break;
+        case 'explosion':
+          this.boom(event.radius);
+          break;
+        case 'enemyLaunched':
+          if (event.kind !== 'bomber') this.whistle();
+          break;
+        case 'powerUpCollected':
+          this.powerUp(event.kind);
+          break;
+        case 'cityDestroyed':
+          this.cityLost();
+          break;
+        case 'batteryDestroyed':
+          this.batteryLost();
+          break;
+        case 'status':
+          if (event.status === GameStatus.PLAYING) {
+            this.startMusic(sim.state.round);
+          } else {
+            this.stopMusic();
+            if (event.status === GameStatus.WIN) this.jingle(true);
+            if (event.status === GameStatus.GAME_OVER) this.jingle(false);
+          }
+          break;
+      }
+    });
+  }
+
+  /** Closes the audio context. A later `unlock()` builds a fresh one. */
+  dispose() {
+    this.stopMusic();
+    void this.ctx?.close();
+    this.ctx = null;
+    this.master = this.sfx = this.musicBus = null;
+    this.noise = null;
+    this.music = null;
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Semitone offsets from the round's root note, one entry per 16th step; null rests.
+const LEADS: (number | null)[][] = [
+  [12, null, 15, null, 19, null, 15, null, 17, null, 15, 14, 12, null, null, null],
+  [12, 14, 15, null, 19, null, 22, null, 19, 17, 15, null, 14, null, 10, null],
+  [24, null, 22, 19, null, 17, 19, null, 15, null, 17, 15, 12, null, 14, null]
+];
+const BASS = [0, 0, 7, 7, 5, 5, 3, 3];
+const ROOTS = [0, 2, 3, 5, 7]; // Key changes as rounds go up
+
+const LOOKAHEAD = 0.1; // Seconds of audio scheduled ahead of the clock
+const TICK_MS = 25;
+
+function noteFreq(base: number, semitones: number): number {
+  return base * Math.pow(2, semitones / 12);
+}
+
+/**
+ * Tiny square/triangle chiptune sequencer. The tune, key and tempo all
+ * depend on the round so later waves sound more urgent.
+ */
+export class ChiptuneLoop {
+  private ctx: AudioContext;
+  private out: AudioNode;
+  private timer: number | null = null;
+  private step = 0;
+  private nextTime = 0;
+  private round = 0;
+
+  constructor(ctx: AudioContext, out: AudioNode) {
+    this.ctx = ctx;
+    this.out = out;
+  }
+
+  start(round: number) {
+    if (this.timer !== null && this.round === round) return;
+    this.stop();
+    this.round = round;
+    this.step = 0;
+    this.nextTime = this.ctx.currentTime + 0.05;
+    this.timer = window.setInterval(() => this.schedule(), TICK_MS);
+  }
+
+  stop() {
+    if (this.timer !== null) {
+      window.clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private schedule() {
+    const tempo = Math.min(180, 110 + this.round * 6);
+    const stepTime = 60 / tempo / 4;
+    const base = noteFreq(110, ROOTS[(this.round - 1) % ROOTS.length]);
+    const lead = LEADS[Math.floor((this.round - 1) / ROOTS.length) % LEADS.length];
+
+    while (this.nextTime < this.ctx.currentTime + LOOKAHEAD) {
+      const i = this.step % 16;
+      const note = lead[i];
+      if (note !== null) {
+        this.note('square', noteFreq(base * 2, note), this.nextTime, stepTime * 0.9, 0.08);
+      }
+      if (i % 2 === 0) {
+        this.note('triangle', noteFreq(base, BASS[i / 2]), this.nextTime, stepTime * 1.8, 0.18);
+      }
+      this.nextTime += stepTime;
+      this.step++;
+    }
+  }
+
+  private note(type: OscillatorType, freq: number, time: number, duration: number, gain: number) {
+    const osc = this.ctx.createOscillator();
+    const env = this.ctx.createGain();
+    osc.type = type;
+    osc.frequency.value = freq;
+    env.gain.setValueAtTime(gain, time);
+    env.gain.exponentialRampToValueAtTime(0.001, time + duration);
+    osc.connect(env).connect(this.out);
+    osc.start(time);
+    osc.stop(time + duration);
+  }
+}
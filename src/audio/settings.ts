@@ -0,0 +1,51 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export interface AudioSettings {
+  master: number; // 0..1
+  sfx: number; // 0..1
+  music: number; // 0..1
+  muted: boolean;
+}
+
+const STORAGE_KEY = 'sun-light.audio';
+const STORAGE_VERSION = 1;
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  master: 0.8,
+  sfx: 0.8,
+  music: 0.5,
+  muted: false
+};
+
+function clampVolume(value: unknown, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) ? Math.max(0, Math.min(1, value)) : fallback;
+}
+
+/** Reads saved volumes, falling back to the defaults for anything missing or malformed. */
+export function loadAudioSettings(): AudioSettings {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return { ...DEFAULT_AUDIO_SETTINGS };
+    const data = JSON.parse(raw);
+    if (data?.version !== STORAGE_VERSION) return { ...DEFAULT_AUDIO_SETTINGS };
+    return {
+      master: clampVolume(data.master, DEFAULT_AUDIO_SETTINGS.master),
+      sfx: clampVolume(data.sfx, DEFAULT_AUDIO_SETTINGS.sfx),
+      music: clampVolume(data.music, DEFAULT_AUDIO_SETTINGS.music),
+      muted: data.muted === true
+    };
+  } catch {
+    return { ...DEFAULT_AUDIO_SETTINGS };
+  }
+}
+
+export function saveAudioSettings(settings: AudioSettings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: STORAGE_VERSION, ...settings }));
+  } catch {
+    // Storage full or disabled; settings just won't persist
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect, useState } from 'react';
+import { RotateCcw, X } from 'lucide-react';
+import {
+  CONTROL_ACTIONS,
+  DEFAULT_BINDINGS,
+  buttonLabel,
+  cloneBindings,
+  keyLabel,
+  rebindButton,
+  rebindKey,
+  type Bindings,
+  type ControlAction
+} from '../input/bindings';
+import type { Translation } from '../i18n';
+import { Dialog } from './Dialog';
+
+function actionName(action: ControlAction, t: Translation): string {
+  switch (action) {
+    case 'up': return t.actionUp;
+    case 'down': return t.actionDown;
+    case 'left': return t.actionLeft;
+    case 'right': return t.actionRight;
+    case 'fire': return t.actionFire;
+    case 'fireLeft': return t.actionFireLeft;
+    case 'fireCenter': return t.actionFireCenter;
+    case 'fireRight': return t.actionFireRight;
+    case 'pause': return t.actionPause;
+  }
+}
+
+type Listening = { device: 'keys' | 'buttons'; action: ControlAction } | null;
+
+interface ControlsSettingsProps {
+  bindings: Bindings;
+  t: Translation;
+  onChange: (bindings: Bindings) => void;
+  onClose: () => void;
+}
+
+export function ControlsSettings({ bindings, t, onChange, onClose }: ControlsSettingsProps) {
+  const [listening, setListening] = useState<Listening>(null);
+
+  // Capture the next key press while rebinding a keyboard action
+  useEffect(() => {
+    if (listening?.device !== 'keys') return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopImmediatePropagation();
+      // Escape cancels unless it is what the player is binding
+      if (e.code !== 'Escape' || listening.action === 'pause') onChange(rebindKey(bindings, listening.action, e.code));
+      setListening(null);
+    };
+    window.addEventListener('keydown', onKeyDown, true);
+    return () => window.removeEventListener('keydown', onKeyDown, true);
+  }, [listening, bindings, onChange]);
+
+  // Poll for the next newly pressed button while rebinding a gamepad action
+  useEffect(() => {
+    if (listening?.device !== 'buttons') return;
+    let frame: number;
+    let baseline: boolean[] | null = null;
+    const poll = () => {
+      const pad = Array.from(navigator.getGamepads?.() ?? []).find(p => p && p.connected);
+      if (pad) {
+        const pressed = pad.buttons.map(b => b.pressed);
+        const index = baseline ? pressed.findIndex((p, i) => p && !baseline![i]) : -1;
+        if (index !== -1) {
+          onChange(rebindButton(bindings, listening.action, index));
+          setListening(null);
+          return;
+        }
+        baseline = pressed;
+      }
+      frame = requestAnimationFrame(poll);
+    };
+    frame = requestAnimationFrame(poll);
+    return () => cancelAnimationFrame(frame);
+  }, [listening, bindings, onChange]);
+
+  const cellClass = (active: boolean) =>
+    `w-full px-2 py-2 text-[8px] rounded-none border-2 transition-colors ${active ? 'bg-white text-black border-white' : 'bg-white/5 border-white/10 hover:bg-white/10'}`;
+
+  return (
+    <div className="absolute inset-0 z-40 flex items-center justify-center p-6 bg-black/80 backdrop-blur-sm">
+      <Dialog label={t.controls} onClose={onClose} className="bg-zinc-900 border-4 border-white/20 p-6 rounded-none shadow-2xl max-w-lg w-full max-h-full overflow-y-auto">
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-sm font-bold uppercase tracking-tight">{t.controls}</h2>
+          <button onClick={onClose} title={t.close} className="p-2 bg-white/10 hover:bg-white/20 rounded-none border-2 border-white/20">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+        <div className="grid grid-cols-[1fr_6rem_6rem] gap-2 items-center text-[8px]">
+          <span />
+          <span className="text-white/40 text-center">{t.keyboard}</span>
+          <span className="text-white/40 text-center">{t.gamepad}</span>
+          {CONTROL_ACTIONS.map(action => {
+            const keysActive = listening?.device === 'keys' && listening.action === action;
+            const buttonsActive = listening?.device === 'buttons' && listening.action === action;
+            return [
+              <span key={`${action}-name`} className="text-white/80 leading-relaxed">{actionName(action, t)}</span>,
+              <button key={`${action}-keys`} onClick={() => setListening({ device: 'keys', action })} className={cellClass(keysActive)}>
+                {keysActive ? '...' : bindings.keys[action].map(keyLabel).join(' / ') || '-'}
+              </button>,
+              <button key={`${action}-buttons`} onClick={() => setListening({ device: 'buttons', action })} className={cellClass(buttonsActive)}>
+                {buttonsActive ? '...' : bindings.buttons[action].map(buttonLabel).join(' / ') || '-'}
+              </button>
+            ];
+          })}
+        </div>
+        <p className="mt-4 h-4 text-[8px] text-white/60">
+          {listening ? (listening.device === 'keys' ? t.pressKey : t.pressButton) : ''}
+        </p>
+        <button
+          onClick={() => { setListening(null); onChange(cloneBindings(DEFAULT_BINDINGS)); }}
+          className="mt-4 w-full py-3 bg-white/10 text-white text-[10px] rounded-none hover:bg-white/20 transition-colors border-2 border-white/20 flex items-center justify-center gap-2"
+        >
+          <RotateCcw className="w-3 h-3" />
+          {t.resetDefaults}
+        </button>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useState } from 'react';
+import { Copy, Image } from 'lucide-react';
+import { accuracyPercent, type DailyResult } from '../game/daily';
+import { downloadResultCard } from '../render/resultCard';
+import type { Theme } from '../render/theme';
+import type { Translation } from '../i18n';
+
+/** Spoiler-free summary for pasting into a chat: one emoji per city. */
+export function dailyShareText(result: DailyResult, t: Translation): string {
+  const cities = result.cities.map(alive => (alive ? '🏙️' : '💥')).join('');
+  return [
+    `${t.title} · ${t.dailyChallenge} ${result.date}`,
+    `🏆 ${result.score} · 🌊 ${t.round} ${result.round}`,
+    cities,
+    `🎯 ${t.accuracy} ${accuracyPercent(result)}% (${result.hits}/${result.shots})`,
+    ...(result.assisted ? [`* ${t.assisted}`] : [])
+  ].join('\n');
+}
+
+interface DailyResultPanelProps {
+  result: DailyResult;
+  theme: Theme; // Draws the PNG card's sprites
+  t: Translation;
+}
+
+export function DailyResultPanel({ result, theme, t }: DailyResultPanelProps) {
+  const [copyState, setCopyState] = useState<'idle' | 'copied' | 'failed'>('idle');
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(dailyShareText(result, t));
+      setCopyState('copied');
+    } catch {
+      setCopyState('failed');
+    }
+  };
+
+  const saveCard = () => {
+    downloadResultCard(result, {
+      title: t.title,
+      heading: t.dailyChallenge,
+      score: t.score,
+      round: t.round,
+      accuracy: t.accuracy,
+      assisted: t.assisted
+    }, theme);
+  };
+
+  return (
+    <div className="flex flex-col items-center">
+      <div className="flex gap-4 text-[8px] text-white/60 mb-3">
+        <span>{t.round} <span className="text-white">{result.round}</span></span>
+        <span>{t.cities} <span className="text-white">{result.cities.filter(Boolean).length}</span></span>
+        <span>{t.accuracy} <span className="text-white">{accuracyPercent(result)}%</span></span>
+        {result.assisted && <abbr title={t.assisted} className="no-underline">*</abbr>}
+      </div>
+      <div className="flex gap-2">
+        <button
+          onClick={copy}
+          className="px-6 py-3 bg-white/10 text-white text-[10px] rounded-none hover:bg-white/20 transition-colors border-2 border-white/20 flex items-center gap-2"
+        >
+          <Copy className="w-3 h-3" />
+          {copyState === 'copied' ? t.copied : copyState === 'failed' ? t.copyFailed : t.copyResult}
+        </button>
+        <button
+          onClick={saveCard}
+          className="px-6 py-3 bg-white/10 text-white text-[10px] rounded-none hover:bg-white/20 transition-colors border-2 border-white/20 flex items-center gap-2"
+        >
+          <Image className="w-3 h-3" />
+          {t.saveCard}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useRef, useState, type ReactNode } from 'react';
+
+const FOCUSABLE = 'button:not([disabled]), input:not([disabled]), select:not([disabled]), textarea:not([disabled]), [href], [tabindex]:not([tabindex="-1"])';
+
+interface DialogProps {
+  label: string;
+  className?: string;
+  onClose?: () => void; // Escape closes; leave out for dialogs that have to be answered
+  children: ReactNode;
+}
+
+/**
+ * Modal panel for keyboard and screen-reader users: takes focus when it
+ * opens (an `autoFocus` child wins), keeps Tab inside, and hands focus back
+ * to where it was when it closes.
+ */
+export function Dialog({ label, className, onClose, children }: DialogProps) {
+  const ref = useRef<HTMLDivElement>(null);
+  const [opener] = useState(() => document.activeElement);
+
+  useEffect(() => {
+    const el = ref.current;
+    if (el && !el.contains(document.activeElement)) {
+      el.querySelector<HTMLElement>(FOCUSABLE)?.focus();
+    }
+    return () => {
+      if (opener instanceof HTMLElement && opener.isConnected) opener.focus();
+    };
+  }, [opener]);
+
+  const onKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === 'Escape' && onClose) {
+      e.stopPropagation();
+      onClose();
+      return;
+    }
+    if (e.key !== 'Tab' || !ref.current) return;
+    const items: HTMLElement[] = Array.from(ref.current.querySelectorAll(FOCUSABLE));
+    if (items.length === 0) return;
+    const first = items[0];
+    const last = items[items.length - 1];
+    if (e.shiftKey && document.activeElement === first) {
+      e.preventDefault();
+      last.focus();
+    } else if (!e.shiftKey && document.activeElement === last) {
+      e.preventDefault();
+      first.focus();
+    }
+  };
+
+  return (
+    <div ref={ref} role="dialog" aria-modal="true" aria-label={label} onKeyDown={onKeyDown} className={className}>
+      {children}
+    </div>
+  );
+}
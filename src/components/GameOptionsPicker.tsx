@@ -0,0 +1,112 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { WIN_SCORE } from '../game/constants';
+import { DIFFICULTIES, SELECTABLE_MODES, type Difficulty, type GameMode, type GameOptions } from '../game/difficulty';
+import { PLAYER_MODES, type PlayerMode } from '../game/players';
+import { format, type Translation } from '../i18n';
+
+export function modeName(mode: GameMode, t: Translation): { name: string; desc: string } {
+  switch (mode) {
+    case 'classic':
+      return { name: t.modeClassic, desc: format(t.modeClassicDesc, { points: WIN_SCORE }) };
+    case 'endless':
+      return { name: t.modeEndless, desc: t.modeEndlessDesc };
+    case 'daily':
+      return { name: t.dailyChallenge, desc: t.dailyDesc };
+  }
+}
+
+export function difficultyName(difficulty: Difficulty, t: Translation): string {
+  switch (difficulty) {
+    case 'easy':
+      return t.difficultyEasy;
+    case 'normal':
+      return t.difficultyNormal;
+    case 'hard':
+      return t.difficultyHard;
+    case 'arcade':
+      return t.difficultyArcade;
+  }
+}
+
+export function playersName(players: PlayerMode, t: Translation): { name: string; desc: string } {
+  switch (players) {
+    case 'solo':
+      return { name: t.playersSolo, desc: '' };
+    case 'coop':
+      return { name: t.playersCoop, desc: t.playersCoopDesc };
+    case 'versus':
+      return { name: t.playersVersus, desc: t.playersVersusDesc };
+  }
+}
+
+/** Short "Endless · Hard" label for the HUD and end screens; multiplayer adds "· Co-op". */
+export function optionsLabel(options: GameOptions, t: Translation): string {
+  const label = `${modeName(options.mode, t).name} · ${difficultyName(options.difficulty, t)}`;
+  return options.players === 'solo' ? label : `${label} · ${playersName(options.players, t).name}`;
+}
+
+interface GameOptionsPickerProps {
+  options: GameOptions;
+  t: Translation;
+  onChange: (options: GameOptions) => void;
+}
+
+function optionClass(selected: boolean): string {
+  return `px-3 py-2 text-[8px] rounded-none transition-colors border-2 ${
+    selected ? 'bg-white text-black border-gray-400' : 'bg-white/10 text-white border-white/20 hover:bg-white/20'
+  }`;
+}
+
+export function GameOptionsPicker({ options, t, onChange }: GameOptionsPickerProps) {
+  return (
+    <div className="flex flex-col items-center gap-3">
+      <div className="flex flex-wrap justify-center gap-2" role="radiogroup" aria-label={t.mode}>
+        {SELECTABLE_MODES.map(mode => (
+          <button
+            key={mode}
+            role="radio"
+            aria-checked={options.mode === mode}
+            onClick={() => onChange({ ...options, mode })}
+            className={optionClass(options.mode === mode)}
+          >
+            {modeName(mode, t).name}
+          </button>
+        ))}
+      </div>
+      <div className="flex flex-wrap justify-center gap-2" role="radiogroup" aria-label={t.difficulty}>
+        {DIFFICULTIES.map(difficulty => (
+          <button
+            key={difficulty}
+            role="radio"
+            aria-checked={options.difficulty === difficulty}
+            onClick={() => onChange({ ...options, difficulty })}
+            className={optionClass(options.difficulty === difficulty)}
+          >
+            {difficultyName(difficulty, t)}
+          </button>
+        ))}
+      </div>
+      <div className="flex flex-wrap justify-center gap-2" role="radiogroup" aria-label={t.players}>
+        {PLAYER_MODES.map(players => (
+          <button
+            key={players}
+            role="radio"
+            aria-checked={options.players === players}
+            onClick={() => onChange({ ...options, players })}
+            className={optionClass(options.players === players)}
+          >
+            {playersName(players, t).name}
+          </button>
+        ))}
+      </div>
+      <p className="text-white/40 max-w-md text-[8px] leading-relaxed">{modeName(options.mode, t).desc}</p>
+      {options.players !== 'solo' && (
+        <p className="text-white/40 max-w-md text-[8px] leading-relaxed">{playersName(options.players, t).desc}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { ChevronDown, ChevronUp } from 'lucide-react';
+import { INITIALS_LENGTH, type HighScoreEntry } from '../storage/highScores';
+import type { Translation } from '../i18n';
+
+const LETTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789 ';
+
+/** The entry's date in its own language, or the default locale if that one is unknown. */
+function formatDate(entry: HighScoreEntry): string {
+  const date = new Date(entry.date);
+  try {
+    return date.toLocaleDateString(entry.lang);
+  } catch {
+    return date.toLocaleDateString();
+  }
+}
+
+interface HighScoreTableProps {
+  entries: HighScoreEntry[];
+  t: Translation;
+  highlight?: number; // Rank to emphasize, e.g. the entry just added
+  limit?: number;
+}
+
+export function HighScoreTable({ entries, t, highlight = -1, limit }: HighScoreTableProps) {
+  const shown = limit ? entries.slice(0, limit) : entries;
+
+  return (
+    <div className="w-full max-w-sm">
+      <h3 className="text-[10px] font-bold mb-3 uppercase tracking-tight text-white/60">{t.highScores}</h3>
+      {shown.length === 0 ? (
+        <p className="text-[8px] text-white/40">{t.noScores}</p>
+      ) : (
+        <table className="w-full text-[8px]">
+          <thead className="text-white/40">
+            <tr>
+              <th className="text-left font-normal pb-2">#</th>
+              <th className="text-left font-normal pb-2" />
+              <th className="text-right font-normal pb-2">{t.score}</th>
+              <th className="text-right font-normal pb-2">{t.round}</th>
+              <th className="text-right font-normal pb-2">{t.cities}</th>
+              <th className="text-right font-normal pb-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {shown.map((entry, i) => (
+              <tr key={`${entry.date}-${i}`} className={i === highlight ? 'text-black bg-white' : 'text-white/80'}>
+                <td className="py-1 pl-1">{i + 1}</td>
+                <td className="py-1 whitespace-pre">
+                  {entry.initials}
+                  {entry.assisted && <abbr title={t.assisted} className="no-underline opacity-60">*</abbr>}
+                </td>
+                <td className="py-1 text-right">{entry.score}</td>
+                <td className="py-1 text-right">{entry.round}</td>
+                <td className="py-1 text-right">{entry.cities}</td>
+                <td className="py-1 pr-1 text-right text-[6px] opacity-60">{formatDate(entry)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+interface InitialsEntryProps {
+  t: Translation;
+  onSubmit: (initials: string) => void;
+}
+
+/** Arcade-style three letter entry: arrows cycle and move, typing works too. */
+export function InitialsEntry({ t, onSubmit }: InitialsEntryProps) {
+  const [letters, setLetters] = useState<string[]>(new Array(INITIALS_LENGTH).fill('A'));
+  const [slot, setSlot] = useState(0);
+  const rootRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    rootRef.current?.focus({ preventScroll: true });
+  }, []);
+
+  const cycle = (index: number, delta: number) => {
+    setLetters(prev => {
+      const next = [...prev];
+      const pos = LETTERS.indexOf(next[index]);
+      next[index] = LETTERS[(pos + delta + LETTERS.length) % LETTERS.length];
+      return next;
+    });
+  };
+
+  const submit = () => onSubmit(letters.join(''));
+
+  const onKeyDown = (e: KeyboardEvent) => {
+    const key = e.key.toUpperCase();
+    if (e.key === 'ArrowUp') cycle(slot, 1);
+    else if (e.key === 'ArrowDown') cycle(slot, -1);
+    else if (e.key === 'ArrowLeft' || e.key === 'Backspace') setSlot(s => Math.max(0, s - 1));
+    else if (e.key === 'ArrowRight') setSlot(s => Math.min(INITIALS_LENGTH - 1, s + 1));
+    else if (e.key === 'Enter') submit();
+    else if (key.length === 1 && LETTERS.includes(key)) {
+      setLetters(prev => prev.map((l, i) => (i === slot ? key : l)));
+      setSlot(s => Math.min(INITIALS_LENGTH - 1, s + 1));
+    } else return;
+    e.preventDefault();
+    e.stopPropagation();
+  };
+
+  return (
+    <div
+      ref={rootRef}
+      tabIndex={0}
+      data-capture-keys
+      onKeyDown={onKeyDown}
+      className="outline-none flex flex-col items-center"
+    >
+      <span className="text-white uppercase tracking-widest text-[10px] block mb-2">{t.newHighScore}</span>
+      <span className="text-white/40 text-[8px] block mb-4">{t.enterInitials}</span>
+      <div className="flex gap-3 mb-4">
+        {letters.map((letter, i) => (
+          <div key={i} className="flex flex-col items-center gap-1">
+            <button onClick={() => { setSlot(i); cycle(i, 1); }} className="p-1 text-white/60 hover:text-white">
+              <ChevronUp className="w-4 h-4" />
+            </button>
+            <span
+              onClick={() => setSlot(i)}
+              className={`w-10 h-12 flex items-center justify-center text-2xl border-4 whitespace-pre ${i === slot ? 'border-white' : 'border-white/20'}`}
+            >
+              {letter}
+            </span>
+            <button onClick={() => { setSlot(i); cycle(i, -1); }} className="p-1 text-white/60 hover:text-white">
+              <ChevronDown className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+      <span className="text-white/40 text-[6px] block mb-4">{t.initialsHint}</span>
+      <button
+        onClick={submit}
+        className="px-6 py-3 bg-white/10 text-white text-[10px] rounded-none hover:bg-white/20 transition-colors border-2 border-white/20"
+      >
+        {t.save}
+      </button>
+    </div>
+  );
+}
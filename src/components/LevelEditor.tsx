@@ -0,0 +1,428 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Building2, Copy, Download, Eraser, Mountain, Play, Plus, RectangleHorizontal, Shield, Trash2, Upload, X } from 'lucide-react';
+import { PLAYFIELD_HEIGHT, PLAYFIELD_WIDTH } from '../game/constants';
+import {
+  MAX_AMMO,
+  MAX_BATTERIES,
+  MAX_CITIES,
+  MAX_OBSTACLES,
+  MAX_TERRAIN_POINTS,
+  MIN_GROUND,
+  MIN_OBSTACLE_SIZE,
+  isBuiltinLevel,
+  parseLevel,
+  resolveLayout,
+  serializeLevel,
+  type Level,
+  type Obstacle
+} from '../game/level';
+import { createGameState } from '../game/simulation';
+import { DEFAULT_CAMPAIGN } from '../game/waves';
+import { format, type Translation } from '../i18n';
+import { renderGame, type RenderOptions } from '../render/renderer';
+import { allLevels, selectedLevel, uniqueLevelId, type LevelLibrary } from '../storage/levels';
+import { Dialog } from './Dialog';
+
+export function downloadLevel(level: Level) {
+  const blob = new Blob([serializeLevel(level)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `sun-light-level-${level.id}.json`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+const TOOLS = ['city', 'battery', 'obstacle', 'terrain', 'erase'] as const;
+type Tool = typeof TOOLS[number];
+
+const TOOL_ICONS = { city: Building2, battery: Shield, obstacle: RectangleHorizontal, terrain: Mountain, erase: Eraser };
+
+function toolName(tool: Tool, t: Translation): string {
+  switch (tool) {
+    case 'city': return t.toolCity;
+    case 'battery': return t.toolBattery;
+    case 'obstacle': return t.toolObstacle;
+    case 'terrain': return t.toolTerrain;
+    case 'erase': return t.toolErase;
+  }
+}
+
+const W = PLAYFIELD_WIDTH;
+const H = PLAYFIELD_HEIGHT;
+const MAX_GROUND = H / 2;
+const DEFAULT_AMMO = 20;
+const ERASE_REACH = 25; // px either side of a city or battery
+const NEW_OBSTACLE = { width: 60, height: 20 };
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, Math.round(value) || 0));
+
+/** Keeps an obstacle inside the playfield at no less than the minimum size. */
+function fitObstacle(o: Obstacle): Obstacle {
+  const x = clamp(o.x, 0, W - MIN_OBSTACLE_SIZE);
+  const y = clamp(o.y, 0, H - MIN_OBSTACLE_SIZE);
+  return { x, y, width: clamp(o.width, MIN_OBSTACLE_SIZE, W - x), height: clamp(o.height, MIN_OBSTACLE_SIZE, H - y) };
+}
+
+/** Spreads `count` terrain points over the same profile. */
+function resampleTerrain(terrain: number[], count: number): number[] {
+  const segments = terrain.length - 1;
+  return Array.from({ length: count }, (_, i) => {
+    const f = (i / (count - 1)) * segments;
+    const j = Math.min(segments - 1, Math.floor(f));
+    return Math.round(terrain[j] + (terrain[j + 1] - terrain[j]) * (f - j));
+  });
+}
+
+const actionClass = 'px-3 py-2 bg-white/10 text-white text-[8px] rounded-none hover:bg-white/20 transition-colors border-2 border-white/20 flex items-center gap-2 disabled:opacity-30';
+const fieldClass = 'w-14 bg-black border-2 border-white/20 px-1 py-1 text-[8px] text-white rounded-none';
+
+function choiceClass(selected: boolean): string {
+  return `px-3 py-2 text-[8px] rounded-none border-2 transition-colors flex items-center gap-2 ${
+    selected ? 'bg-white text-black border-gray-400' : 'bg-white/10 text-white border-white/20 hover:bg-white/20'
+  }`;
+}
+
+interface NumberFieldProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  onChange: (value: number) => void;
+}
+
+function NumberField({ label, value, min, max, onChange }: NumberFieldProps) {
+  return (
+    <input type="number" min={min} max={max} value={Math.round(value)} aria-label={label} title={label}
+      onChange={e => onChange(clamp(Number(e.target.value), min, max))} className={fieldClass} />
+  );
+}
+
+interface LevelEditorProps {
+  library: LevelLibrary;
+  renderOptions: RenderOptions;
+  t: Translation;
+  onChange: (library: LevelLibrary) => void;
+  onTestPlay: (level: Level) => void;
+  onClose: () => void;
+}
+
+/**
+ * Places cities, batteries and obstacles and shapes the ground, on a preview
+ * drawn by the game's own renderer. Every list also has number fields, so a
+ * level can be built without a pointer. Built-in levels are read-only.
+ */
+export function LevelEditor({ library, renderOptions, t, onChange, onTestPlay, onClose }: LevelEditorProps) {
+  const [tool, setTool] = useState<Tool>('city');
+  const [error, setError] = useState<string | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const paintingRef = useRef(false);
+
+  // Terrain painting fires faster than React re-renders, so edits chain off the latest library
+  const libraryRef = useRef(library);
+  libraryRef.current = library;
+
+  const level = selectedLevel(library);
+  const editable = !isBuiltinLevel(level.id);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    renderGame(ctx, createGameState(W, H, 0, DEFAULT_CAMPAIGN, resolveLayout(level, W, H)), renderOptions);
+  }, [level, renderOptions]);
+
+  const commit = (next: LevelLibrary) => {
+    libraryRef.current = next;
+    onChange(next);
+  };
+
+  const edit = (update: (level: Level) => Level) => {
+    const current = libraryRef.current;
+    commit({ ...current, custom: current.custom.map(l => (l.id === current.selected ? update(l) : l)) });
+  };
+
+  const select = (id: string) => {
+    setError(null);
+    commit({ ...libraryRef.current, selected: id });
+  };
+
+  const addLevel = (added: Level) => {
+    const current = libraryRef.current;
+    commit({ selected: added.id, custom: [...current.custom, added] });
+  };
+
+  const duplicate = () => {
+    const name = format(t.copyName, { name: level.name });
+    addLevel({ ...JSON.parse(serializeLevel(level)), id: uniqueLevelId(libraryRef.current, name), name });
+  };
+
+  const importLevel = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseLevel(JSON.parse(await file.text()));
+      const taken = allLevels(libraryRef.current).some(l => l.id === imported.id);
+      addLevel(taken ? { ...imported, id: uniqueLevelId(libraryRef.current, imported.id) } : imported);
+      setError(null);
+    } catch (err) {
+      setError(`${t.levelError}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const deleteLevel = () => {
+    const current = libraryRef.current;
+    commit({ ...current, custom: current.custom.filter(l => l.id !== level.id) });
+  };
+
+  // --- Canvas Tools ---
+
+  const toPlayfield = (e: PointerEvent) => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return { x: ((e.clientX - rect.left) / rect.width) * W, y: ((e.clientY - rect.top) / rect.height) * H };
+  };
+
+  const shapeTerrain = (x: number, y: number) => {
+    edit(l => {
+      const i = Math.round((x / W) * (l.terrain.length - 1));
+      const h = clamp(H - y, MIN_GROUND, MAX_GROUND);
+      if (l.terrain[i] === undefined || l.terrain[i] === h) return l;
+      return { ...l, terrain: l.terrain.map((old, j) => (j === i ? h : old)) };
+    });
+  };
+
+  const erase = (x: number, y: number) => {
+    edit(l => {
+      const obstacle = l.obstacles.findIndex(o => x >= o.x && x <= o.x + o.width && y >= o.y && y <= o.y + o.height);
+      if (obstacle !== -1) return { ...l, obstacles: l.obstacles.filter((_, i) => i !== obstacle) };
+      const city = l.cities.findIndex(cx => Math.abs(cx - x) <= ERASE_REACH);
+      if (city !== -1 && l.cities.length > 1) return { ...l, cities: l.cities.filter((_, i) => i !== city) };
+      const battery = l.batteries.findIndex(b => Math.abs(b.x - x) <= ERASE_REACH);
+      if (battery !== -1 && l.batteries.length > 1) return { ...l, batteries: l.batteries.filter((_, i) => i !== battery) };
+      return l;
+    });
+  };
+
+  const place = (x: number, y: number) => {
+    const px = clamp(x, 0, W);
+    switch (tool) {
+      case 'city':
+        edit(l => (l.cities.length < MAX_CITIES ? { ...l, cities: [...l.cities, px] } : l));
+        break;
+      case 'battery':
+        edit(l => (l.batteries.length < MAX_BATTERIES ? { ...l, batteries: [...l.batteries, { x: px, ammo: DEFAULT_AMMO }] } : l));
+        break;
+      case 'obstacle': {
+        const o = fitObstacle({ x: x - NEW_OBSTACLE.width / 2, y: y - NEW_OBSTACLE.height / 2, ...NEW_OBSTACLE });
+        edit(l => (l.obstacles.length < MAX_OBSTACLES ? { ...l, obstacles: [...l.obstacles, o] } : l));
+        break;
+      }
+      case 'terrain':
+        shapeTerrain(x, y);
+        break;
+      case 'erase':
+        erase(x, y);
+        break;
+    }
+  };
+
+  // --- List Editing ---
+
+  const setCity = (index: number, x: number) => edit(l => ({ ...l, cities: l.cities.map((old, i) => (i === index ? x : old)) }));
+  const setBattery = (index: number, patch: Partial<Level['batteries'][number]>) =>
+    edit(l => ({ ...l, batteries: l.batteries.map((old, i) => (i === index ? { ...old, ...patch } : old)) }));
+  const setObstacle = (index: number, patch: Partial<Obstacle>) =>
+    edit(l => ({ ...l, obstacles: l.obstacles.map((old, i) => (i === index ? fitObstacle({ ...old, ...patch }) : old)) }));
+  const setTerrain = (index: number, h: number) => edit(l => ({ ...l, terrain: l.terrain.map((old, i) => (i === index ? h : old)) }));
+
+  const removeButton = (onClick: () => void, disabled = false) => (
+    <button onClick={onClick} disabled={disabled} title={t.removeEntry} aria-label={t.removeEntry} className="p-1 bg-white/10 hover:bg-white/20 border-2 border-white/20 disabled:opacity-30">
+      <X className="w-3 h-3" />
+    </button>
+  );
+
+  return (
+    <div className="absolute inset-0 z-40 flex items-center justify-center p-6 bg-black/80 backdrop-blur-sm">
+      <Dialog label={t.levelEditor} onClose={onClose} className="bg-zinc-900 border-4 border-white/20 p-6 rounded-none shadow-2xl max-w-3xl w-full max-h-full overflow-y-auto">
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-sm font-bold uppercase tracking-tight">{t.levelEditor}</h2>
+          <button onClick={onClose} title={t.close} className="p-2 bg-white/10 hover:bg-white/20 rounded-none border-2 border-white/20">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-2 mb-3" role="radiogroup" aria-label={t.levels}>
+          {allLevels(library).map(l => (
+            <button key={l.id} role="radio" aria-checked={l.id === level.id} onClick={() => select(l.id)} className={choiceClass(l.id === level.id)}>
+              {l.name}
+            </button>
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-2 mb-3">
+          <button onClick={() => onTestPlay(level)} className="px-3 py-2 bg-white text-black text-[8px] font-bold rounded-none hover:bg-gray-200 transition-colors border-2 border-gray-400 flex items-center gap-2">
+            <Play className="w-3 h-3" />
+            {t.testPlay}
+          </button>
+          <button onClick={duplicate} className={actionClass}>
+            <Copy className="w-3 h-3" />
+            {t.duplicateLevel}
+          </button>
+          <button onClick={() => fileRef.current?.click()} className={actionClass}>
+            <Upload className="w-3 h-3" />
+            {t.importLevel}
+          </button>
+          <button onClick={() => downloadLevel(level)} className={actionClass}>
+            <Download className="w-3 h-3" />
+            {t.exportLevel}
+          </button>
+          <button onClick={deleteLevel} disabled={!editable} className={actionClass}>
+            <Trash2 className="w-3 h-3" />
+            {t.deleteLevel}
+          </button>
+          <input ref={fileRef} type="file" accept="application/json,.json" className="hidden" onChange={importLevel} />
+        </div>
+        {error && <p role="alert" className="mb-3 text-[8px] text-red-400 leading-relaxed break-words">{error}</p>}
+
+        {editable && (
+          <div className="flex flex-wrap gap-1 mb-3" role="radiogroup" aria-label={t.levelTools}>
+            {TOOLS.map(id => {
+              const Icon = TOOL_ICONS[id];
+              return (
+                <button key={id} role="radio" aria-checked={tool === id} onClick={() => setTool(id)} className={choiceClass(tool === id)}>
+                  <Icon className="w-3 h-3" />
+                  {toolName(id, t)}
+                </button>
+              );
+            })}
+          </div>
+        )}
+        <canvas
+          ref={canvasRef}
+          width={W}
+          height={H}
+          role="img"
+          aria-label={t.levelPreview}
+          className={`w-full border-2 border-white/20 mb-4 touch-none ${editable ? 'cursor-crosshair' : ''}`}
+          onPointerDown={(e: PointerEvent) => {
+            if (!editable) return;
+            const { x, y } = toPlayfield(e);
+            place(x, y);
+            if (tool === 'terrain') {
+              paintingRef.current = true;
+              (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+            }
+          }}
+          onPointerMove={(e: PointerEvent) => {
+            if (!paintingRef.current) return;
+            const { x, y } = toPlayfield(e);
+            shapeTerrain(x, y);
+          }}
+          onPointerUp={() => { paintingRef.current = false; }}
+          onPointerCancel={() => { paintingRef.current = false; }}
+        />
+
+        {!editable ? (
+          <p className="text-[8px] text-white/40 leading-relaxed">{t.builtInLevel}</p>
+        ) : (
+          <div className="space-y-6 text-[8px]">
+            <label className="flex items-center gap-3">
+              <span className="w-16 shrink-0">{t.levelName}</span>
+              <input
+                value={level.name}
+                maxLength={32}
+                onChange={e => edit(l => ({ ...l, name: e.target.value }))}
+                onBlur={() => edit(l => (l.name.trim() ? l : { ...l, name: l.id }))}
+                className="flex-1 bg-black border-2 border-white/20 px-2 py-1 text-[8px] text-white rounded-none"
+              />
+            </label>
+
+            <section>
+              <h3 className="text-[10px] font-bold mb-3 uppercase tracking-tight text-white/60">{t.cities} ({level.cities.length}/{MAX_CITIES})</h3>
+              <div className="flex flex-wrap gap-2 items-center">
+                {level.cities.map((x, i) => (
+                  <span key={i} className="flex items-center gap-1">
+                    <NumberField label={`${t.toolCity} ${i + 1} X`} value={x} min={0} max={W} onChange={v => setCity(i, v)} />
+                    {removeButton(() => edit(l => ({ ...l, cities: l.cities.filter((_, j) => j !== i) })), level.cities.length <= 1)}
+                  </span>
+                ))}
+                <button onClick={() => edit(l => ({ ...l, cities: [...l.cities, W / 2] }))} disabled={level.cities.length >= MAX_CITIES} className={actionClass}>
+                  <Plus className="w-3 h-3" />
+                  {t.toolCity}
+                </button>
+              </div>
+            </section>
+
+            <section>
+              <h3 className="text-[10px] font-bold mb-3 uppercase tracking-tight text-white/60">{t.batteries} ({level.batteries.length}/{MAX_BATTERIES})</h3>
+              <div className="space-y-2">
+                {level.batteries.map((b, i) => (
+                  <div key={i} className="flex items-center gap-2">
+                    <span className="w-16 shrink-0 text-white/60">{t.toolBattery} {i + 1}</span>
+                    <span>X</span>
+                    <NumberField label={`${t.toolBattery} ${i + 1} X`} value={b.x} min={0} max={W} onChange={x => setBattery(i, { x })} />
+                    <span>{t.ammo}</span>
+                    <NumberField label={`${t.toolBattery} ${i + 1} ${t.ammo}`} value={b.ammo} min={1} max={MAX_AMMO} onChange={ammo => setBattery(i, { ammo })} />
+                    {removeButton(() => edit(l => ({ ...l, batteries: l.batteries.filter((_, j) => j !== i) })), level.batteries.length <= 1)}
+                  </div>
+                ))}
+                <button onClick={() => edit(l => ({ ...l, batteries: [...l.batteries, { x: W / 2, ammo: DEFAULT_AMMO }] }))} disabled={level.batteries.length >= MAX_BATTERIES} className={actionClass}>
+                  <Plus className="w-3 h-3" />
+                  {t.toolBattery}
+                </button>
+              </div>
+            </section>
+
+            <section>
+              <h3 className="text-[10px] font-bold mb-3 uppercase tracking-tight text-white/60">{t.obstacles} ({level.obstacles.length}/{MAX_OBSTACLES})</h3>
+              <div className="space-y-2">
+                {level.obstacles.map((o, i) => {
+                  const label = `${t.toolObstacle} ${i + 1}`;
+                  return (
+                    <div key={i} className="flex flex-wrap items-center gap-2">
+                      <span className="w-16 shrink-0 text-white/60">{label}</span>
+                      <NumberField label={`${label} X`} value={o.x} min={0} max={W - MIN_OBSTACLE_SIZE} onChange={x => setObstacle(i, { x })} />
+                      <NumberField label={`${label} Y`} value={o.y} min={0} max={H - MIN_OBSTACLE_SIZE} onChange={y => setObstacle(i, { y })} />
+                      <NumberField label={`${label} ${t.obstacleWidth}`} value={o.width} min={MIN_OBSTACLE_SIZE} max={W} onChange={width => setObstacle(i, { width })} />
+                      <NumberField label={`${label} ${t.obstacleHeight}`} value={o.height} min={MIN_OBSTACLE_SIZE} max={H} onChange={height => setObstacle(i, { height })} />
+                      {removeButton(() => edit(l => ({ ...l, obstacles: l.obstacles.filter((_, j) => j !== i) })))}
+                    </div>
+                  );
+                })}
+                <button onClick={() => edit(l => ({ ...l, obstacles: [...l.obstacles, fitObstacle({ x: (W - NEW_OBSTACLE.width) / 2, y: H / 2, ...NEW_OBSTACLE })] }))}
+                  disabled={level.obstacles.length >= MAX_OBSTACLES} className={actionClass}>
+                  <Plus className="w-3 h-3" />
+                  {t.toolObstacle}
+                </button>
+              </div>
+            </section>
+
+            <section>
+              <h3 className="text-[10px] font-bold mb-3 uppercase tracking-tight text-white/60">{t.terrain}</h3>
+              <div className="flex items-center gap-2 mb-3">
+                <span className="w-16 shrink-0">{t.terrainPoints}</span>
+                <NumberField label={t.terrainPoints} value={level.terrain.length} min={2} max={MAX_TERRAIN_POINTS}
+                  onChange={count => edit(l => ({ ...l, terrain: resampleTerrain(l.terrain, count) }))} />
+                <button onClick={() => edit(l => ({ ...l, terrain: l.terrain.map(() => 20) }))} className={actionClass}>
+                  {t.flattenTerrain}
+                </button>
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {level.terrain.map((h, i) => (
+                  <span key={i}>
+                    <NumberField label={format(t.terrainPoint, { n: i + 1 })} value={h} min={MIN_GROUND} max={MAX_GROUND} onChange={v => setTerrain(i, v)} />
+                  </span>
+                ))}
+              </div>
+            </section>
+          </div>
+        )}
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { PlayerMode } from '../game/players';
+import type { Translation } from '../i18n';
+
+export function playerLabel(players: PlayerMode, player: number, t: Translation): string {
+  const name = player === 0 ? t.player1 : t.player2;
+  if (players !== 'versus') return name;
+  return `${name} ${player === 0 ? t.defender : t.attacker}`;
+}
+
+interface PlayerScoresProps {
+  players: PlayerMode;
+  scores: number[];
+  t: Translation;
+  compact?: boolean; // One line for the HUD instead of side-by-side columns
+}
+
+/** Per-player points in co-op and versus. Renders nothing in solo games. */
+export function PlayerScores({ players, scores, t, compact = false }: PlayerScoresProps) {
+  if (players === 'solo') return null;
+
+  if (compact) {
+    return (
+      <span className="text-[8px] tracking-tight text-white/60">
+        {scores.map((score, i) => `${i === 0 ? t.player1 : t.player2} ${score}`).join(' · ')}
+      </span>
+    );
+  }
+
+  const best = Math.max(...scores);
+  return (
+    <div className="flex gap-4 justify-center">
+      {scores.map((score, i) => (
+        <div
+          key={i}
+          className={`w-40 p-4 border-4 rounded-none ${players === 'versus' || score !== best ? 'border-white/20' : 'border-white'}`}
+        >
+          <span className="text-white/40 uppercase tracking-widest text-[8px] block mb-3">{playerLabel(players, i, t)}</span>
+          <span className="text-2xl font-bold text-white">{score}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Hourglass, Shield } from 'lucide-react';
+import { format, type Translation } from '../i18n';
+
+interface PowerUpTimersProps {
+  shieldTime: number;
+  shieldedCities: number;
+  slowMoTime: number;
+  t: Translation;
+}
+
+/** HUD countdowns for the power-ups that last a while. EMP and ammo crates act at once. */
+export function PowerUpTimers({ shieldTime, shieldedCities, slowMoTime, t }: PowerUpTimersProps) {
+  if (shieldTime <= 0 && slowMoTime <= 0) return null;
+  const seconds = (time: number) => format(t.powerUpTimer, { seconds: Math.ceil(time) });
+
+  return (
+    <div className="flex items-center gap-3 bg-black/60 backdrop-blur-md px-4 py-3 rounded-none border-2 border-white/20" title={t.powerUps}>
+      {shieldTime > 0 && (
+        <span className="flex items-center gap-1 text-[8px]" title={t.powerUpShield}>
+          <Shield className="w-3 h-3" />
+          {shieldedCities > 1 && `x${shieldedCities} `}
+          {seconds(shieldTime)}
+        </span>
+      )}
+      {slowMoTime > 0 && (
+        <span className="flex items-center gap-1 text-[8px]" title={t.powerUpSlowMo}>
+          <Hourglass className="w-3 h-3" />
+          {seconds(slowMoTime)}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect, useState } from 'react';
+import { Download, Pause, Play, StepForward, X } from 'lucide-react';
+import { REPLAY_SPEEDS, serializeReplay, type Replay, type ReplayPlayer } from '../game/replay';
+import type { Translation } from '../i18n';
+
+export function downloadReplay(replay: Replay) {
+  const blob = new Blob([serializeReplay(replay)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `sun-light-replay-${replay.seed}-${replay.finalScore}.json`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+interface ReplayViewerProps {
+  player: ReplayPlayer;
+  t: Translation;
+  onClose: () => void;
+}
+
+const buttonClass = 'p-2 bg-white/10 hover:bg-white/20 rounded-none transition-colors border-2 border-white/20 disabled:opacity-30';
+
+export function ReplayViewer({ player, t, onClose }: ReplayViewerProps) {
+  // The player advances inside the canvas loop; poll it for the controls.
+  const [, setFrame] = useState(0);
+  useEffect(() => {
+    const id = window.setInterval(() => setFrame(f => f + 1), 100);
+    return () => window.clearInterval(id);
+  }, []);
+
+  const { replay, sim } = player;
+  const progress = replay.endTick > 0 ? Math.min(1, player.tick / replay.endTick) : 1;
+
+  return (
+    <div className="absolute bottom-0 left-0 w-full p-4 z-20 pointer-events-none">
+      <div className="mx-auto max-w-xl bg-black/80 backdrop-blur-md border-2 border-white/20 p-3 pointer-events-auto">
+        <div className="flex justify-between items-center text-[8px] text-white/60 mb-3 uppercase tracking-tight">
+          <span>{t.replay} · {t.round} {sim.state.round} · {t.score} {sim.state.score}</span>
+          <span>{player.finished ? t.replayFinished : `${player.tick} / ${replay.endTick}`}</span>
+        </div>
+        <div className="h-1 bg-white/10 mb-3">
+          <div className="h-full bg-white" style={{ width: `${progress * 100}%` }} />
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => { player.paused = !player.paused; setFrame(f => f + 1); }}
+            disabled={player.finished}
+            title={player.paused ? t.play : t.pause}
+            className={buttonClass}
+          >
+            {player.paused ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+          </button>
+          <button
+            onClick={() => { player.paused = true; player.stepFrame(); setFrame(f => f + 1); }}
+            disabled={player.finished}
+            title={t.stepFrame}
+            className={buttonClass}
+          >
+            <StepForward className="w-4 h-4" />
+          </button>
+          <div className="flex gap-1 ml-2">
+            {REPLAY_SPEEDS.map(speed => (
+              <button
+                key={speed}
+                onClick={() => { player.speed = speed; setFrame(f => f + 1); }}
+                className={`px-2 py-2 text-[8px] rounded-none border-2 transition-colors ${player.speed === speed ? 'bg-white text-black border-white' : 'bg-white/10 border-white/20 hover:bg-white/20'}`}
+              >
+                {speed}x
+              </button>
+            ))}
+          </div>
+          <div className="flex-1" />
+          <button onClick={() => downloadReplay(replay)} title={t.exportReplay} className={buttonClass}>
+            <Download className="w-4 h-4" />
+          </button>
+          <button onClick={onClose} title={t.close} className={buttonClass}>
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,227 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Gamepad2, Palette, Volume2, VolumeX, X } from 'lucide-react';
+import { GAME_SPEEDS, TEXT_SCALES, type AccessibilitySettings } from '../accessibility/settings';
+import type { AudioSettings } from '../audio/settings';
+import type { Translation } from '../i18n';
+import { REDUCED_MOTION_OPTIONS, type EffectsSettings, type ReducedMotion } from '../render/effectsSettings';
+import { PALETTE_IDS, type PaletteId } from '../render/palette';
+import { Dialog } from './Dialog';
+
+interface SettingsPanelProps {
+  audio: AudioSettings;
+  effects: EffectsSettings;
+  accessibility: AccessibilitySettings;
+  t: Translation;
+  onAudioChange: (settings: AudioSettings) => void;
+  onEffectsChange: (settings: EffectsSettings) => void;
+  onAccessibilityChange: (settings: AccessibilitySettings) => void;
+  onOpenControls: () => void;
+  onOpenThemes: () => void;
+  onClose: () => void;
+}
+
+const VOLUME_KEYS = ['master', 'sfx', 'music'] as const;
+const INTENSITY_KEYS = ['particles', 'shake', 'flash'] as const;
+
+function reducedMotionName(option: ReducedMotion, t: Translation): string {
+  switch (option) {
+    case 'system':
+      return t.reducedMotionSystem;
+    case 'on':
+      return t.reducedMotionOn;
+    case 'off':
+      return t.reducedMotionOff;
+  }
+}
+
+function paletteName(palette: PaletteId, t: Translation): string {
+  switch (palette) {
+    case 'standard':
+      return t.paletteStandard;
+    case 'highContrast':
+      return t.paletteHighContrast;
+  }
+}
+
+function choiceClass(selected: boolean): string {
+  return `flex-1 py-2 rounded-none border-2 transition-colors ${
+    selected ? 'bg-white text-black border-gray-400' : 'bg-white/10 text-white border-white/20 hover:bg-white/20'
+  }`;
+}
+
+interface ChoiceRowProps<T> {
+  label: string;
+  options: readonly T[];
+  value: T;
+  name: (option: T) => string;
+  onChange: (option: T) => void;
+}
+
+/** A labelled row of radio buttons. */
+function ChoiceRow<T extends string | number>({ label, options, value, name, onChange }: ChoiceRowProps<T>) {
+  return (
+    <div className="flex items-center gap-3 text-[8px]">
+      <span className="w-16 shrink-0">{label}</span>
+      <div className="flex flex-1 gap-1" role="radiogroup" aria-label={label}>
+        {options.map(option => (
+          <button key={option} role="radio" aria-checked={value === option} onClick={() => onChange(option)} className={choiceClass(value === option)}>
+            {name(option)}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+interface ToggleRowProps {
+  label: string;
+  hint: string;
+  checked: boolean;
+  t: Translation;
+  onChange: (checked: boolean) => void;
+}
+
+function ToggleRow({ label, hint, checked, t, onChange }: ToggleRowProps) {
+  return (
+    <div className="text-[8px]">
+      <div className="flex items-center gap-3">
+        <span className="flex-1">{label}</span>
+        <button role="switch" aria-checked={checked} aria-label={label} onClick={() => onChange(!checked)} className={`w-16 py-2 rounded-none border-2 transition-colors ${
+          checked ? 'bg-white text-black border-gray-400' : 'bg-white/10 text-white border-white/20 hover:bg-white/20'
+        }`}>
+          {checked ? t.optionOn : t.optionOff}
+        </button>
+      </div>
+      <p className="mt-2 text-[6px] text-white/40 leading-relaxed">{hint}</p>
+    </div>
+  );
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+export function SettingsPanel({ audio, effects, accessibility, t, onAudioChange, onEffectsChange, onAccessibilityChange, onOpenControls, onOpenThemes, onClose }: SettingsPanelProps) {
+  const labels = { master: t.masterVolume, sfx: t.sfxVolume, music: t.musicVolume };
+  const effectLabels = { particles: t.particles, shake: t.screenShake, flash: t.hitFlash };
+  const changeAccessibility = (patch: Partial<AccessibilitySettings>) => onAccessibilityChange({ ...accessibility, ...patch });
+
+  return (
+    <div className="absolute inset-0 z-40 flex items-center justify-center p-6 bg-black/80 backdrop-blur-sm">
+      <Dialog label={t.settings} onClose={onClose} className="bg-zinc-900 border-4 border-white/20 p-6 rounded-none shadow-2xl max-w-sm w-full max-h-full overflow-y-auto">
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-sm font-bold uppercase tracking-tight">{t.settings}</h2>
+          <button onClick={onClose} title={t.close} className="p-2 bg-white/10 hover:bg-white/20 rounded-none border-2 border-white/20">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <h3 className="text-[10px] font-bold mb-4 uppercase tracking-tight text-white/60">{t.audio}</h3>
+        <div className="space-y-4 mb-6">
+          {VOLUME_KEYS.map(key => (
+            <label key={key} className="flex items-center gap-3 text-[8px]">
+              <span className="w-16 shrink-0">{labels[key]}</span>
+              <input
+                type="range"
+                min={0}
+                max={100}
+                value={Math.round(audio[key] * 100)}
+                onChange={e => onAudioChange({ ...audio, [key]: Number(e.target.value) / 100 })}
+                className="flex-1 accent-white"
+              />
+              <span className="w-8 text-right text-white/60">{Math.round(audio[key] * 100)}</span>
+            </label>
+          ))}
+          <button
+            onClick={() => onAudioChange({ ...audio, muted: !audio.muted })}
+            className="w-full py-3 bg-white/10 text-white text-[10px] rounded-none hover:bg-white/20 transition-colors border-2 border-white/20 flex items-center justify-center gap-2"
+          >
+            {audio.muted ? <VolumeX className="w-3 h-3" /> : <Volume2 className="w-3 h-3" />}
+            {audio.muted ? t.unmute : t.mute}
+          </button>
+        </div>
+
+        <h3 className="text-[10px] font-bold mb-4 uppercase tracking-tight text-white/60">{t.effects}</h3>
+        <div className="space-y-4 mb-6">
+          {INTENSITY_KEYS.map(key => (
+            <label key={key} className="flex items-center gap-3 text-[8px]">
+              <span className="w-16 shrink-0">{effectLabels[key]}</span>
+              <input
+                type="range"
+                min={0}
+                max={100}
+                value={Math.round(effects[key] * 100)}
+                onChange={e => onEffectsChange({ ...effects, [key]: Number(e.target.value) / 100 })}
+                className="flex-1 accent-white"
+              />
+              <span className="w-8 text-right text-white/60">{Math.round(effects[key] * 100)}</span>
+            </label>
+          ))}
+          <ChoiceRow
+            label={t.reducedMotion}
+            options={REDUCED_MOTION_OPTIONS}
+            value={effects.reducedMotion}
+            name={option => reducedMotionName(option, t)}
+            onChange={reducedMotion => onEffectsChange({ ...effects, reducedMotion })}
+          />
+        </div>
+
+        <h3 className="text-[10px] font-bold mb-4 uppercase tracking-tight text-white/60">{t.accessibility}</h3>
+        <div className="space-y-4 mb-6">
+          <ChoiceRow
+            label={t.palette}
+            options={PALETTE_IDS}
+            value={accessibility.palette}
+            name={palette => paletteName(palette, t)}
+            onChange={palette => changeAccessibility({ palette })}
+          />
+          <ChoiceRow
+            label={t.textSize}
+            options={TEXT_SCALES}
+            value={accessibility.textScale}
+            name={percent}
+            onChange={textScale => changeAccessibility({ textScale })}
+          />
+          <ChoiceRow
+            label={t.gameSpeed}
+            options={GAME_SPEEDS}
+            value={accessibility.gameSpeed}
+            name={percent}
+            onChange={gameSpeed => changeAccessibility({ gameSpeed })}
+          />
+          <ToggleRow
+            label={t.biggerBlasts}
+            hint={t.biggerBlastsHint}
+            checked={accessibility.biggerBlasts}
+            t={t}
+            onChange={biggerBlasts => changeAccessibility({ biggerBlasts })}
+          />
+          <ToggleRow
+            label={t.aimAssist}
+            hint={t.aimAssistHint}
+            checked={accessibility.aimAssist}
+            t={t}
+            onChange={aimAssist => changeAccessibility({ aimAssist })}
+          />
+        </div>
+
+        <button
+          onClick={onOpenControls}
+          className="w-full py-3 bg-white/10 text-white text-[10px] rounded-none hover:bg-white/20 transition-colors border-2 border-white/20 flex items-center justify-center gap-2"
+        >
+          <Gamepad2 className="w-3 h-3" />
+          {t.controls}
+        </button>
+        <button
+          onClick={onOpenThemes}
+          className="mt-2 w-full py-3 bg-white/10 text-white text-[10px] rounded-none hover:bg-white/20 transition-colors border-2 border-white/20 flex items-center justify-center gap-2"
+        >
+          <Palette className="w-3 h-3" />
+          {t.editThemes}
+        </button>
+      </Dialog>
+    </div>
+  );
+}
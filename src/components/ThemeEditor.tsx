@@ -0,0 +1,341 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useRef, useState } from 'react';
+import { Copy, Download, Eraser, Minus, Plus, Trash2, Upload, X } from 'lucide-react';
+import { format, type Translation } from '../i18n';
+import { PALETTE_KEYS, type PaletteKey } from '../render/palette';
+import {
+  MAX_INKS,
+  MAX_SPRITE_SIZE,
+  MAX_STARS,
+  SPRITE_IDS,
+  THEME_TEXT_KEYS,
+  cloneTheme,
+  isBuiltinTheme,
+  parseTheme,
+  removeInk,
+  resizeSprite,
+  serializeTheme,
+  type SpriteId,
+  type Theme
+} from '../render/theme';
+import { activeTheme, allThemes, uniqueThemeId, type ThemeLibrary } from '../storage/themes';
+import { Dialog } from './Dialog';
+
+export function downloadTheme(theme: Theme) {
+  const blob = new Blob([serializeTheme(theme)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `sun-light-theme-${theme.id}.json`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+function spriteName(sprite: SpriteId, t: Translation): string {
+  switch (sprite) {
+    case 'dog': return t.spriteDog;
+    case 'zigzag': return t.spriteZigzag;
+    case 'armored': return t.spriteArmored;
+    case 'mirv': return t.spriteMirv;
+    case 'bomber': return t.spriteBomber;
+    case 'cat': return t.spriteCat;
+    case 'bone': return t.spriteBone;
+    case 'fish': return t.spriteFish;
+  }
+}
+
+function colorName(key: PaletteKey, t: Translation): string {
+  switch (key) {
+    case 'bg': return t.colorBg;
+    case 'stars': return t.colorStars;
+    case 'planet': return t.colorPlanet;
+    case 'planetShade': return t.colorPlanetShade;
+    case 'ground': return t.colorGround;
+    case 'enemy': return t.colorEnemy;
+    case 'interceptor': return t.colorInterceptor;
+    case 'explosion': return t.colorExplosion;
+    case 'explosionCore': return t.colorExplosionCore;
+    case 'city': return t.colorCity;
+    case 'battery': return t.colorBattery;
+    case 'ruins': return t.colorRuins;
+    case 'ruinsShade': return t.colorRuinsShade;
+    case 'text': return t.colorText;
+    case 'target': return t.colorTarget;
+  }
+}
+
+function choiceClass(selected: boolean): string {
+  return `px-3 py-2 text-[8px] rounded-none border-2 transition-colors ${
+    selected ? 'bg-white text-black border-gray-400' : 'bg-white/10 text-white border-white/20 hover:bg-white/20'
+  }`;
+}
+
+const actionClass = 'px-3 py-2 bg-white/10 text-white text-[8px] rounded-none hover:bg-white/20 transition-colors border-2 border-white/20 flex items-center gap-2 disabled:opacity-30';
+const fieldClass = 'bg-black border-2 border-white/20 px-2 py-1 text-[8px] text-white rounded-none';
+
+// Transparent pixels show a checkerboard, like most paint programs
+const TRANSPARENT = 'repeating-conic-gradient(#333 0% 25%, #1a1a1a 0% 50%) 50% / 8px 8px';
+
+interface ThemeEditorProps {
+  library: ThemeLibrary;
+  lang: string;
+  t: Translation; // Without theme text, so the flavor fields can show the defaults
+  onChange: (library: ThemeLibrary) => void;
+  onClose: () => void;
+}
+
+/**
+ * Picks the active theme and edits custom ones in place: sprites pixel by
+ * pixel, inks, scene colors and flavor text. Built-in themes are read-only
+ * and have to be duplicated first. Every edit is saved right away.
+ */
+export function ThemeEditor({ library, lang, t, onChange, onClose }: ThemeEditorProps) {
+  const [sprite, setSprite] = useState<SpriteId>('dog');
+  const [ink, setInk] = useState(1); // 0 erases
+  const [error, setError] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const paintingRef = useRef(false);
+
+  // Drag painting fires faster than React re-renders, so edits chain off the latest library
+  const libraryRef = useRef(library);
+  libraryRef.current = library;
+
+  const theme = activeTheme(library);
+  const editable = !isBuiltinTheme(theme.id);
+  const art = theme.sprites[sprite];
+  const inkIndex = Math.min(ink, theme.inks.length);
+
+  const commit = (next: ThemeLibrary) => {
+    libraryRef.current = next;
+    onChange(next);
+  };
+
+  const edit = (update: (theme: Theme) => Theme) => {
+    const current = libraryRef.current;
+    commit({ ...current, custom: current.custom.map(c => (c.id === current.selected ? update(c) : c)) });
+  };
+
+  const select = (id: string) => {
+    setError(null);
+    commit({ ...libraryRef.current, selected: id });
+  };
+
+  const addTheme = (added: Theme) => {
+    const current = libraryRef.current;
+    commit({ selected: added.id, custom: [...current.custom, added] });
+  };
+
+  const duplicate = () => {
+    const name = format(t.copyName, { name: theme.name });
+    addTheme({ ...cloneTheme(theme), id: uniqueThemeId(libraryRef.current, name), name });
+  };
+
+  const importTheme = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseTheme(JSON.parse(await file.text()));
+      const taken = allThemes(libraryRef.current).some(c => c.id === imported.id);
+      addTheme(taken ? { ...imported, id: uniqueThemeId(libraryRef.current, imported.id) } : imported);
+      setError(null);
+    } catch (err) {
+      setError(`${t.themeError}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const deleteTheme = () => {
+    const current = libraryRef.current;
+    commit({ ...current, custom: current.custom.filter(c => c.id !== theme.id) });
+  };
+
+  const paint = (r: number, c: number) => {
+    edit(th => {
+      const rows = th.sprites[sprite];
+      if (rows[r]?.[c] === undefined || rows[r][c] === inkIndex) return th;
+      const next = rows.map((row, i) => (i === r ? row.map((p, j) => (j === c ? inkIndex : p)) : row));
+      return { ...th, sprites: { ...th.sprites, [sprite]: next } };
+    });
+  };
+
+  const paintAt = (e: PointerEvent) => {
+    const rect = (e.currentTarget as HTMLElement).getBoundingClientRect();
+    const c = Math.floor(((e.clientX - rect.left) / rect.width) * art[0].length);
+    const r = Math.floor(((e.clientY - rect.top) / rect.height) * art.length);
+    paint(r, c);
+  };
+
+  const resize = (width: number, height: number) => {
+    const clamp = (n: number) => Math.max(1, Math.min(MAX_SPRITE_SIZE, Math.round(n) || 1));
+    edit(th => ({ ...th, sprites: { ...th.sprites, [sprite]: resizeSprite(th.sprites[sprite], clamp(width), clamp(height)) } }));
+  };
+
+  const baseText = (key: typeof THEME_TEXT_KEYS[number]) => t[key];
+  const text = theme.text[lang] ?? {};
+
+  return (
+    <div className="absolute inset-0 z-40 flex items-center justify-center p-6 bg-black/80 backdrop-blur-sm">
+      <Dialog label={t.themes} onClose={onClose} className="bg-zinc-900 border-4 border-white/20 p-6 rounded-none shadow-2xl max-w-lg w-full max-h-full overflow-y-auto">
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-sm font-bold uppercase tracking-tight">{t.themes}</h2>
+          <button onClick={onClose} title={t.close} className="p-2 bg-white/10 hover:bg-white/20 rounded-none border-2 border-white/20">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-2 mb-3" role="radiogroup" aria-label={t.theme}>
+          {allThemes(library).map(c => (
+            <button key={c.id} role="radio" aria-checked={c.id === theme.id} onClick={() => select(c.id)} className={choiceClass(c.id === theme.id)}>
+              {c.name}
+            </button>
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-2 mb-3">
+          <button onClick={duplicate} className={actionClass}>
+            <Copy className="w-3 h-3" />
+            {t.duplicateTheme}
+          </button>
+          <button onClick={() => fileRef.current?.click()} className={actionClass}>
+            <Upload className="w-3 h-3" />
+            {t.importTheme}
+          </button>
+          <button onClick={() => downloadTheme(theme)} className={actionClass}>
+            <Download className="w-3 h-3" />
+            {t.exportTheme}
+          </button>
+          <button onClick={deleteTheme} disabled={!editable} className={actionClass}>
+            <Trash2 className="w-3 h-3" />
+            {t.deleteTheme}
+          </button>
+          <input ref={fileRef} type="file" accept="application/json,.json" className="hidden" onChange={importTheme} />
+        </div>
+        {error && <p role="alert" className="mb-3 text-[8px] text-red-400 leading-relaxed break-words">{error}</p>}
+
+        {!editable ? (
+          <p className="text-[8px] text-white/40 leading-relaxed">{t.builtInTheme}</p>
+        ) : (
+          <>
+            <label className="flex items-center gap-3 text-[8px] mb-6">
+              <span className="w-16 shrink-0">{t.themeName}</span>
+              <input
+                value={theme.name}
+                maxLength={32}
+                onChange={e => edit(th => ({ ...th, name: e.target.value }))}
+                onBlur={() => edit(th => (th.name.trim() ? th : { ...th, name: th.id }))}
+                className={`flex-1 ${fieldClass}`}
+              />
+            </label>
+
+            <h3 className="text-[10px] font-bold mb-4 uppercase tracking-tight text-white/60">{t.sprites}</h3>
+            <div className="flex flex-wrap gap-1 mb-4" role="radiogroup" aria-label={t.sprites}>
+              {SPRITE_IDS.map(id => (
+                <button key={id} role="radio" aria-checked={sprite === id} onClick={() => setSprite(id)} className={choiceClass(sprite === id)}>
+                  {spriteName(id, t)}
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center gap-2 text-[8px] mb-4">
+              <span className="w-16 shrink-0">{t.spriteSize}</span>
+              <input type="number" min={1} max={MAX_SPRITE_SIZE} value={art[0].length} aria-label={t.spriteWidth}
+                onChange={e => resize(Number(e.target.value), art.length)} className={`w-14 ${fieldClass}`} />
+              <span>x</span>
+              <input type="number" min={1} max={MAX_SPRITE_SIZE} value={art.length} aria-label={t.spriteHeight}
+                onChange={e => resize(art[0].length, Number(e.target.value))} className={`w-14 ${fieldClass}`} />
+            </div>
+
+            <div
+              className="grid w-fit mx-auto mb-4 border-2 border-white/20 touch-none select-none"
+              style={{ gridTemplateColumns: `repeat(${art[0].length}, 1.25rem)` }}
+              onPointerDown={(e: PointerEvent) => {
+                paintingRef.current = true;
+                (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+                paintAt(e);
+              }}
+              onPointerMove={(e: PointerEvent) => {
+                if (paintingRef.current) paintAt(e);
+              }}
+              onPointerUp={() => { paintingRef.current = false; }}
+              onPointerCancel={() => { paintingRef.current = false; }}
+            >
+              {art.map((row, r) => row.map((p, c) => (
+                <button
+                  key={`${r}-${c}`}
+                  aria-label={format(t.pixel, { x: c + 1, y: r + 1 })}
+                  onClick={() => paint(r, c)}
+                  className="w-5 h-5 border border-white/5"
+                  style={{ background: p === 0 ? TRANSPARENT : theme.inks[p - 1] }}
+                />
+              )))}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2 mb-6 text-[8px]" role="radiogroup" aria-label={t.inks}>
+              <button role="radio" aria-checked={inkIndex === 0} onClick={() => setInk(0)} title={t.eraser} aria-label={t.eraser}
+                className={`w-8 h-8 flex items-center justify-center border-2 ${inkIndex === 0 ? 'border-white' : 'border-white/20'}`}
+                style={{ background: TRANSPARENT }}>
+                <Eraser className="w-3 h-3" />
+              </button>
+              {theme.inks.map((color, i) => (
+                <span key={i} className="flex flex-col items-center gap-1">
+                  <button role="radio" aria-checked={inkIndex === i + 1} onClick={() => setInk(i + 1)} aria-label={`${t.inks} ${i + 1}`}
+                    className={`w-8 h-8 border-2 ${inkIndex === i + 1 ? 'border-white' : 'border-white/20'}`} style={{ background: color }} />
+                  <input type="color" value={color} aria-label={`${t.inks} ${i + 1}`} className="w-8 h-4 bg-transparent"
+                    onChange={e => edit(th => ({ ...th, inks: th.inks.map((old, j) => (j === i ? e.target.value : old)) }))} />
+                </span>
+              ))}
+              <button onClick={() => edit(th => ({ ...th, inks: [...th.inks, '#ffffff'] }))} disabled={theme.inks.length >= MAX_INKS}
+                title={t.addInk} aria-label={t.addInk} className={actionClass}>
+                <Plus className="w-3 h-3" />
+              </button>
+              <button onClick={() => { edit(th => removeInk(th, inkIndex - 1)); setInk(Math.max(1, inkIndex - 1)); }}
+                disabled={inkIndex === 0 || theme.inks.length <= 1} title={t.removeInk} aria-label={t.removeInk} className={actionClass}>
+                <Minus className="w-3 h-3" />
+              </button>
+            </div>
+
+            <h3 className="text-[10px] font-bold mb-4 uppercase tracking-tight text-white/60">{t.sceneColors}</h3>
+            <div className="grid grid-cols-2 gap-2 mb-4">
+              {PALETTE_KEYS.map(key => (
+                <label key={key} className="flex items-center gap-2 text-[8px]">
+                  <input type="color" value={theme.palette[key]} className="w-8 h-6 bg-transparent shrink-0"
+                    onChange={e => edit(th => ({ ...th, palette: { ...th.palette, [key]: e.target.value } }))} />
+                  <span className="leading-relaxed">{colorName(key, t)}</span>
+                </label>
+              ))}
+            </div>
+            <label className="flex items-center gap-3 text-[8px] mb-6">
+              <span className="flex-1">{t.starCount}</span>
+              <input type="number" min={0} max={MAX_STARS} value={theme.background.stars} className={`w-16 ${fieldClass}`}
+                onChange={e => {
+                  const stars = Math.max(0, Math.min(MAX_STARS, Math.round(Number(e.target.value)) || 0));
+                  edit(th => ({ ...th, background: { ...th.background, stars } }));
+                }} />
+            </label>
+
+            <h3 className="text-[10px] font-bold mb-4 uppercase tracking-tight text-white/60">{t.flavorText}</h3>
+            <div className="space-y-2">
+              {THEME_TEXT_KEYS.map(key => (
+                <input
+                  key={key}
+                  value={text[key] ?? ''}
+                  placeholder={baseText(key)}
+                  aria-label={baseText(key)}
+                  onChange={e => edit(th => {
+                    const messages = { ...th.text[lang] };
+                    if (e.target.value.trim()) messages[key] = e.target.value;
+                    else delete messages[key];
+                    return { ...th, text: { ...th.text, [lang]: messages } };
+                  })}
+                  className={`w-full ${fieldClass}`}
+                />
+              ))}
+            </div>
+          </>
+        )}
+      </Dialog>
+    </div>
+  );
+}
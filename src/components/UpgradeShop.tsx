@@ -0,0 +1,109 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Building2, Crosshair, Gauge, Package, Snowflake, Zap } from 'lucide-react';
+import type { Simulation } from '../game/simulation';
+import { SHOP_ITEM_IDS, itemCost, itemLevel, type ShopItemId, type Upgrades } from '../game/upgrades';
+import type { Translation } from '../i18n';
+
+export const ITEM_ICONS: Record<ShopItemId, typeof Zap> = {
+  rebuildCity: Building2,
+  rebuildBattery: Crosshair,
+  ammo: Package,
+  interceptorSpeed: Gauge,
+  blastRadius: Zap,
+  slowEnemies: Snowflake
+};
+
+export function itemName(item: ShopItemId, t: Translation): { name: string; desc: string } {
+  switch (item) {
+    case 'rebuildCity':
+      return { name: t.rebuildCity, desc: t.rebuildCityDesc };
+    case 'rebuildBattery':
+      return { name: t.rebuildBattery, desc: t.rebuildBatteryDesc };
+    case 'ammo':
+      return { name: t.ammoUpgrade, desc: t.ammoUpgradeDesc };
+    case 'interceptorSpeed':
+      return { name: t.interceptorSpeedUpgrade, desc: t.interceptorSpeedUpgradeDesc };
+    case 'blastRadius':
+      return { name: t.blastRadiusUpgrade, desc: t.blastRadiusUpgradeDesc };
+    case 'slowEnemies':
+      return { name: t.slowEnemiesUpgrade, desc: t.slowEnemiesUpgradeDesc };
+  }
+}
+
+interface UpgradeShopProps {
+  sim: Simulation;
+  score: number; // Passed so the shop re-renders after every purchase
+  t: Translation;
+}
+
+export function UpgradeShop({ sim, score, t }: UpgradeShopProps) {
+  const { upgrades } = sim.state;
+
+  return (
+    <div className="text-left">
+      <h3 className="text-[10px] font-bold mb-4 uppercase tracking-tight text-white/60">{t.shop}</h3>
+      <div className="space-y-2">
+        {SHOP_ITEM_IDS.map(item => {
+          const Icon = ITEM_ICONS[item];
+          const { name, desc } = itemName(item, t);
+          const cost = itemCost(item, upgrades);
+          const level = itemLevel(item, upgrades);
+          const available = sim.canBuy(item);
+          const affordable = score >= cost;
+          return (
+            <button
+              key={item}
+              onClick={() => sim.buy(item)}
+              disabled={!available || !affordable}
+              className="w-full flex items-center gap-3 p-2 bg-white/5 hover:bg-white/10 rounded-none border-2 border-white/10 transition-colors disabled:opacity-30 disabled:hover:bg-white/5"
+            >
+              <Icon className="w-4 h-4 shrink-0" />
+              <div className="flex-1 min-w-0">
+                <div className="text-[8px] leading-relaxed">
+                  {name}
+                  {level !== null && <span className="text-white/40"> {t.level} {level}</span>}
+                </div>
+                <div className="text-[6px] text-white/40 leading-relaxed">{desc}</div>
+              </div>
+              <span className="text-[8px] shrink-0">{available ? cost : level !== null ? t.maxed : '-'}</span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+interface UpgradeBadgesProps {
+  upgrades: Upgrades;
+  slowed: boolean;
+  t: Translation;
+}
+
+/** Compact HUD summary of everything bought so far. */
+export function UpgradeBadges({ upgrades, slowed, t }: UpgradeBadgesProps) {
+  const levels = (['ammo', 'interceptorSpeed', 'blastRadius'] as const).filter(item => upgrades[item] > 0);
+  if (levels.length === 0 && !slowed) return null;
+
+  return (
+    <div className="flex items-center gap-3 bg-black/60 backdrop-blur-md px-4 py-3 rounded-none border-2 border-white/20" title={t.upgrades}>
+      {levels.map(item => {
+        const Icon = ITEM_ICONS[item];
+        return (
+          <span key={item} className="flex items-center gap-1 text-[8px]" title={itemName(item, t).name}>
+            <Icon className="w-3 h-3" />+{upgrades[item]}
+          </span>
+        );
+      })}
+      {slowed && (
+        <span className="flex items-center gap-1 text-[8px]" title={t.slowEnemiesUpgrade}>
+          <Snowflake className="w-3 h-3" />{t.slowActive}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Autopilot, type AutopilotSkillLevel } from './autopilot';
+import { FIXED_DT, MAX_FRAME_TIME, PLAYFIELD_HEIGHT, PLAYFIELD_WIDTH } from './constants';
+import { randomSeed } from './rng';
+import { Simulation } from './simulation';
+import { GameStatus } from './types';
+
+const RESTART_DELAY = 3; // Seconds the finished demo stays on screen
+
+/**
+ * The demo game that plays itself behind the title screen. Each run is a
+ * fresh endless game flown by the autopilot; it restarts a moment after the
+ * last battery falls.
+ */
+export class AttractMode {
+  readonly sim: Simulation;
+  private pilot: Autopilot;
+  private accumulator = 0;
+  private idle = 0;
+
+  constructor(skill: AutopilotSkillLevel = 'veteran') {
+    this.sim = new Simulation(PLAYFIELD_WIDTH, PLAYFIELD_HEIGHT);
+    this.pilot = new Autopilot(this.sim, skill, randomSeed());
+    this.restart();
+  }
+
+  private restart() {
+    this.sim.startGame(randomSeed(), { mode: 'endless', difficulty: 'normal', players: 'solo' });
+    this.idle = 0;
+  }
+
+  advance(elapsed: number) {
+    this.accumulator += Math.min(MAX_FRAME_TIME, Math.max(0, elapsed));
+    while (this.accumulator >= FIXED_DT) {
+      this.accumulator -= FIXED_DT;
+      const status = this.sim.state.status;
+      if (status === GameStatus.GAME_OVER || status === GameStatus.WIN) {
+        this.idle += FIXED_DT;
+        if (this.idle >= RESTART_DELAY) this.restart();
+        continue;
+      }
+      this.pilot.update();
+      this.sim.step();
+    }
+  }
+}
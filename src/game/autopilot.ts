@@ -0,0 +1,196 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { FIXED_DT } from './constants';
+import { Bomber, Enemy, EnemyRocket, ZigZagRocket } from './entities';
+import { createRng, nextRange, type Rng } from './rng';
+import { fireFloor, structurePoint, type Simulation } from './simulation';
+import { blastRadius, interceptorSpeed, itemCost, type ShopItemId } from './upgrades';
+import { GameStatus, type Point } from './types';
+
+export const AUTOPILOT_SKILLS = ['novice', 'veteran', 'ace'] as const;
+export type AutopilotSkillLevel = typeof AUTOPILOT_SKILLS[number];
+
+export interface AutopilotSkill {
+  cooldown: number; // Seconds between shots
+  reaction: number; // Seconds an enemy must be on screen before it is noticed
+  aimError: number; // Max random miss distance in px
+  lead: number; // 0 aims at where the enemy is, 1 at the exact intercept point
+}
+
+export const AUTOPILOT_PRESETS: Record<AutopilotSkillLevel, AutopilotSkill> = {
+  novice: { cooldown: 0.9, reaction: 1.2, aimError: 24, lead: 0.5 },
+  veteran: { cooldown: 0.45, reaction: 0.5, aimError: 10, lead: 0.85 },
+  ace: { cooldown: 0.2, reaction: 0.1, aimError: 2, lead: 1 }
+};
+
+/** What the autopilot buys between rounds, most wanted first. */
+const SHOP_PRIORITY: ShopItemId[] = ['rebuildBattery', 'rebuildCity', 'ammo', 'blastRadius', 'interceptorSpeed'];
+
+const COVER_FACTOR = 0.7; // Share of a blast radius that counts as a sure hit
+
+/** Where an enemy is heading, in px/s. Zig-zags are aimed along their straight path. */
+function velocity(enemy: Enemy): Point {
+  if (enemy instanceof Bomber) return { x: enemy.vx, y: 0 };
+  if (enemy instanceof EnemyRocket) {
+    const from = enemy instanceof ZigZagRocket ? enemy.base : enemy.pos;
+    const dx = enemy.end.x - from.x;
+    const dy = enemy.end.y - from.y;
+    const dist = Math.sqrt(dx * dx + dy * dy);
+    if (dist < 1) return { x: 0, y: 0 };
+    return { x: (dx / dist) * enemy.speed, y: (dy / dist) * enemy.speed };
+  }
+  return { x: 0, y: 0 };
+}
+
+function aimPoint(enemy: Enemy): Point {
+  return enemy instanceof ZigZagRocket ? enemy.base : enemy.pos;
+}
+
+/**
+ * Earliest time at which a projectile fired from `from` at `speed` meets a
+ * target at `pos` moving with `vel`, or null if it can never catch up.
+ */
+export function interceptTime(from: Point, speed: number, pos: Point, vel: Point): number | null {
+  const rx = pos.x - from.x;
+  const ry = pos.y - from.y;
+  const a = vel.x * vel.x + vel.y * vel.y - speed * speed;
+  const b = 2 * (rx * vel.x + ry * vel.y);
+  const c = rx * rx + ry * ry;
+  if (Math.abs(a) < 1e-9) {
+    return b < 0 ? -c / b : null;
+  }
+  const disc = b * b - 4 * a * c;
+  if (disc < 0) return null;
+  const root = Math.sqrt(disc);
+  const times = [(-b - root) / (2 * a), (-b + root) / (2 * a)].filter(t => t > 0);
+  return times.length > 0 ? Math.min(...times) : null;
+}
+
+/**
+ * A computer defender. Each tick it looks at the simulation state, picks the
+ * most urgent enemy nobody is already shooting at, and fires from the battery
+ * that reaches the lead-predicted intercept point first. It only talks to the
+ * simulation through public inputs, so its games record and replay like any
+ * other. Its own aim jitter comes from a separate RNG and never touches the
+ * game's.
+ */
+export class Autopilot {
+  readonly sim: Simulation;
+  skill: AutopilotSkill;
+  /** Buy from the shop and start the next round automatically. */
+  autoAdvance = true;
+  private rng: Rng;
+  private cooldown = 0;
+  private seen = new Map<Enemy, number>(); // When each enemy was first noticed, in sim seconds
+  private live = new Set<Enemy>(); // This tick's enemies, reused so pruning `seen` stays linear
+
+  constructor(sim: Simulation, skill: AutopilotSkill | AutopilotSkillLevel = 'veteran', seed = 1) {
+    this.sim = sim;
+    this.skill = typeof skill === 'string' ? AUTOPILOT_PRESETS[skill] : skill;
+    this.rng = createRng(seed);
+  }
+
+  /** Call once before every `sim.step()`. Returns true if it fired. */
+  update(): boolean {
+    const s = this.sim.state;
+    if (s.status === GameStatus.ROUND_END && this.autoAdvance) {
+      this.shop();
+      this.sim.nextRound();
+      this.seen.clear();
+      return false;
+    }
+    if (s.status !== GameStatus.PLAYING) return false;
+
+    const now = s.tick * FIXED_DT;
+    this.live.clear();
+    for (const enemy of s.enemies) {
+      this.live.add(enemy);
+      if (!this.seen.has(enemy)) this.seen.set(enemy, now);
+    }
+    for (const enemy of this.seen.keys()) {
+      if (!this.live.has(enemy)) this.seen.delete(enemy);
+    }
+
+    this.cooldown -= FIXED_DT;
+    if (this.cooldown > 0) return false;
+
+    const shot = this.chooseShot(now);
+    if (!shot) return false;
+    const fired = this.sim.fire(shot.target.x, shot.target.y, shot.battery);
+    if (fired) this.cooldown = this.skill.cooldown;
+    return fired;
+  }
+
+  private shop() {
+    for (const item of SHOP_PRIORITY) {
+      while (this.sim.canBuy(item) && this.sim.state.score >= itemCost(item, this.sim.state.upgrades)) {
+        if (!this.sim.buy(item)) break;
+      }
+    }
+  }
+
+  /** Seconds until the enemy lands, used to rank threats. */
+  private timeToImpact(enemy: Enemy, vel: Point): number {
+    const s = this.sim.state;
+    const fall = vel.y > 0 ? (s.height - enemy.pos.y) / vel.y : Infinity;
+    return enemy instanceof Bomber ? fall + 5 : fall;
+  }
+
+  /** Whether an interceptor in flight or a growing blast will already catch this enemy. */
+  private isCovered(enemy: Enemy, vel: Point): boolean {
+    const s = this.sim.state;
+    const radius = blastRadius(s.upgrades, s.difficulty);
+    for (const m of s.interceptors) {
+      const dx = m.target.x - m.pos.x;
+      const dy = m.target.y - m.pos.y;
+      const t = Math.sqrt(dx * dx + dy * dy) / m.speed;
+      const ex = enemy.pos.x + vel.x * t - m.target.x;
+      const ey = enemy.pos.y + vel.y * t - m.target.y;
+      if (Math.sqrt(ex * ex + ey * ey) < radius * COVER_FACTOR) return true;
+    }
+    return s.explosions.some(e => {
+      const dx = enemy.pos.x - e.pos.x;
+      const dy = enemy.pos.y - e.pos.y;
+      return e.growing && Math.sqrt(dx * dx + dy * dy) < e.maxRadius * COVER_FACTOR;
+    });
+  }
+
+  private chooseShot(now: number): { target: Point; battery: number } | null {
+    const s = this.sim.state;
+    const speed = interceptorSpeed(s.upgrades);
+    const bases = s.layout.batteries.map(b => structurePoint(s, b.x));
+
+    const threats = s.enemies
+      .filter(enemy => now - (this.seen.get(enemy) ?? now) >= this.skill.reaction)
+      .map(enemy => ({ enemy, vel: velocity(enemy) }))
+      .filter(({ enemy, vel }) => !this.isCovered(enemy, vel))
+      .sort((a, b) => this.timeToImpact(a.enemy, a.vel) - this.timeToImpact(b.enemy, b.vel));
+
+    for (const { enemy, vel } of threats) {
+      const pos = aimPoint(enemy);
+      let best: { target: Point; battery: number; time: number } | null = null;
+
+      for (let i = 0; i < bases.length; i++) {
+        if (!s.batteries[i] || s.ammo[i] <= 0) continue;
+        const t = interceptTime(bases[i], speed, pos, vel);
+        if (t === null) continue;
+        const lead = t * this.skill.lead;
+        const target = { x: pos.x + vel.x * lead, y: pos.y + vel.y * lead };
+        if (target.x < 0 || target.x > s.width || target.y < 0 || target.y > fireFloor(s, target.x)) continue;
+        if (!best || t < best.time) best = { target, battery: i, time: t };
+      }
+
+      if (best) {
+        const { target, battery } = best;
+        const error = this.skill.aimError;
+        const x = target.x + nextRange(this.rng, -error, error);
+        const y = Math.min(fireFloor(s, x), target.y + nextRange(this.rng, -error, error));
+        return { target: { x, y }, battery };
+      }
+    }
+    return null;
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Autopilot, type AutopilotSkill, type AutopilotSkillLevel } from './autopilot';
+import { PLAYFIELD_HEIGHT, PLAYFIELD_WIDTH, TICK_RATE } from './constants';
+import { DEFAULT_GAME_OPTIONS, type GameOptions } from './difficulty';
+import { Simulation } from './simulation';
+import { DEFAULT_CAMPAIGN, type Campaign } from './waves';
+import { GameStatus } from './types';
+
+export interface BalanceOptions {
+  seeds: number[];
+  game: GameOptions;
+  skill: AutopilotSkill | AutopilotSkillLevel;
+  maxRounds: number; // Games stop after clearing this round
+  width: number;
+  height: number;
+  campaign: Campaign;
+}
+
+export const DEFAULT_BALANCE_OPTIONS: BalanceOptions = {
+  seeds: Array.from({ length: 20 }, (_, i) => i + 1),
+  game: { ...DEFAULT_GAME_OPTIONS, mode: 'endless' },
+  skill: 'veteran',
+  maxRounds: 10,
+  width: PLAYFIELD_WIDTH,
+  height: PLAYFIELD_HEIGHT,
+  campaign: DEFAULT_CAMPAIGN
+};
+
+/** How one autopilot game went in one round. */
+export interface RoundRecord {
+  round: number;
+  outcome: 'cleared' | 'lost' | 'won';
+  seconds: number;
+  shots: number;
+  hits: number;
+  kills: number;
+  citiesLost: number;
+  batteriesLost: number;
+}
+
+/** Aggregate over every game that reached a round. */
+export interface WaveReport {
+  round: number;
+  games: number;
+  clearRate: number; // 0..1, "won" counts as cleared
+  accuracy: number; // 0..1
+  avgKills: number;
+  avgCitiesLost: number;
+  avgBatteriesLost: number;
+  avgSeconds: number;
+}
+
+const MAX_ROUND_SECONDS = 600; // Safety net against a round that never ends
+
+/** Plays one seeded game with the autopilot and records every round it reached. */
+export function playAutopilotGame(seed: number, options: BalanceOptions): RoundRecord[] {
+  const sim = new Simulation(options.width, options.height, options.campaign);
+  const pilot = new Autopilot(sim, options.skill, seed);
+  pilot.autoAdvance = false;
+
+  const records: RoundRecord[] = [];
+  let citiesLost = 0;
+  let batteriesLost = 0;
+  let roundStart = 0;
+  const finish = (outcome: RoundRecord['outcome']) => {
+    const { roundStats, round, tick } = sim.state;
+    records.push({
+      round,
+      outcome,
+      seconds: (tick - roundStart) / TICK_RATE,
+      shots: roundStats.shots,
+      hits: roundStats.hits,
+      kills: roundStats.kills,
+      citiesLost,
+      batteriesLost
+    });
+  };
+  sim.subscribe(event => {
+    if (event.type === 'cityDestroyed') citiesLost++;
+    if (event.type === 'batteryDestroyed') batteriesLost++;
+    if (event.type !== 'status') return;
+    if (event.status === GameStatus.ROUND_END) finish('cleared');
+    if (event.status === GameStatus.GAME_OVER) finish('lost');
+    if (event.status === GameStatus.WIN) finish('won');
+  });
+
+  sim.startGame(seed, options.game);
+  while (sim.state.status === GameStatus.PLAYING || sim.state.status === GameStatus.ROUND_END) {
+    if (sim.state.status === GameStatus.ROUND_END) {
+      if (sim.state.round >= options.maxRounds) break;
+      // Let the autopilot shop, then start the next round with fresh counters
+      pilot.autoAdvance = true;
+      pilot.update();
+      pilot.autoAdvance = false;
+      citiesLost = 0;
+      batteriesLost = 0;
+      roundStart = sim.state.tick;
+      continue;
+    }
+    if ((sim.state.tick - roundStart) / TICK_RATE > MAX_ROUND_SECONDS) break;
+    pilot.update();
+    sim.step();
+  }
+  return records;
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+/** Runs the autopilot over every seed and summarizes each round. */
+export function balanceReport(options: BalanceOptions): WaveReport[] {
+  const byRound = new Map<number, RoundRecord[]>();
+  for (const seed of options.seeds) {
+    for (const record of playAutopilotGame(seed, options)) {
+      const list = byRound.get(record.round) ?? [];
+      list.push(record);
+      byRound.set(record.round, list);
+    }
+  }
+
+  return [...byRound.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([round, records]) => {
+      const shots = records.reduce((sum, r) => sum + r.shots, 0);
+      const hits = records.reduce((sum, r) => sum + r.hits, 0);
+      return {
+        round,
+        games: records.length,
+        clearRate: records.filter(r => r.outcome !== 'lost').length / records.length,
+        accuracy: shots > 0 ? hits / shots : 0,
+        avgKills: average(records.map(r => r.kills)),
+        avgCitiesLost: average(records.map(r => r.citiesLost)),
+        avgBatteriesLost: average(records.map(r => r.batteriesLost)),
+        avgSeconds: average(records.map(r => r.seconds))
+      };
+    });
+}
+
+/** Markdown table of a report, one row per round. */
+export function formatBalanceReport(title: string, reports: WaveReport[]): string {
+  const pct = (v: number) => `${Math.round(v * 100)}%`;
+  const num = (v: number) => v.toFixed(1);
+  const lines = [
+    `## ${title}`,
+    '',
+    '| Round | Games | Cleared | Accuracy | Kills | Cities lost | Batteries lost | Seconds |',
+    '| ---: | ---: | ---: | ---: | ---: | ---: | ---: | ---: |',
+    ...reports.map(r =>
+      `| ${r.round} | ${r.games} | ${pct(r.clearRate)} | ${pct(r.accuracy)} | ${num(r.avgKills)} | ${num(r.avgCitiesLost)} | ${num(r.avgBatteriesLost)} | ${num(r.avgSeconds)} |`
+    )
+  ];
+  return lines.join('\n');
+}
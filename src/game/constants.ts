@@ -0,0 +1,28 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export const GAME_VERSION = '1.5.2'; // Bump when a rules change breaks old replays
+
+export const WIN_SCORE = 1000;
+// The classic layout; custom levels set their own
+export const INITIAL_AMMO = [20, 40, 20]; // Left, Center, Right
+export const CITY_COUNT = 6;
+export const AMMO_BONUS = 5; // Points per unused interceptor at round end
+export const CHAIN_RADIUS = 30; // Secondary explosion left by a destroyed enemy
+export const MAX_COMBO = 5; // Highest score multiplier a single chain can reach
+export const POPUP_LIFETIME = 1; // Seconds a floating score stays on screen
+export const POWER_UP_SPEED = 45; // Fall speed of a power-up crate in px/s
+export const SHIELD_DURATION = 10; // Seconds a city's dome shield lasts
+export const SLOW_MO_DURATION = 6;
+export const SLOW_MO_SCALE = 0.4; // Enemy speed while slow-motion runs
+
+// Logical playfield every new game is simulated in, whatever the screen size.
+// 16:9 so common displays get a whole-number scale factor.
+export const PLAYFIELD_WIDTH = 960;
+export const PLAYFIELD_HEIGHT = 540;
+
+export const TICK_RATE = 60;
+export const FIXED_DT = 1 / TICK_RATE;
+export const MAX_FRAME_TIME = 0.25; // Wall-clock time beyond this is dropped instead of simulated
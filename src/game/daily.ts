@@ -0,0 +1,43 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { GameOptions } from './difficulty';
+
+/** Everyone plays the daily run with the same settings, so scores compare. */
+export const DAILY_OPTIONS: GameOptions = { mode: 'daily', difficulty: 'normal', players: 'solo' };
+
+/** How a day's attempt went. Saved when it starts and updated every round. */
+export interface DailyResult {
+  date: string; // Local YYYY-MM-DD the attempt was started on
+  seed: number;
+  score: number;
+  round: number;
+  cities: boolean[];
+  shots: number;
+  hits: number;
+  finished: boolean;
+  assisted?: boolean; // Played with slower speed, bigger blasts or aim assist
+}
+
+/** The player's local calendar day, e.g. "2026-10-19". */
+export function dailyKey(date: Date = new Date()): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/** FNV-1a hash of the day key: the same seed for every player on that day. */
+export function dailySeed(key: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/** Share of shots that destroyed something, as a whole percentage. */
+export function accuracyPercent(result: Pick<DailyResult, 'shots' | 'hits'>): number {
+  return result.shots > 0 ? Math.round((result.hits / result.shots) * 100) : 0;
+}
@@ -0,0 +1,68 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { PlayerMode } from './players';
+import type { WaveDefinition } from './waves';
+
+export const GAME_MODES = ['classic', 'endless', 'daily'] as const;
+export type GameMode = typeof GAME_MODES[number];
+
+/** Modes offered by the picker. Daily runs have their own button and fixed settings. */
+export const SELECTABLE_MODES: readonly GameMode[] = ['classic', 'endless'];
+
+export const DIFFICULTIES = ['easy', 'normal', 'hard', 'arcade'] as const;
+export type Difficulty = typeof DIFFICULTIES[number];
+
+/** Multipliers applied on top of the campaign. Normal leaves everything as designed. */
+export interface DifficultyPreset {
+  enemySpeed: number;
+  spawnRate: number; // Higher launches enemies more often
+  ammo: number; // Scales the starting magazines, not upgrade gains
+  blastRadius: number;
+}
+
+export const DIFFICULTY_PRESETS: Record<Difficulty, DifficultyPreset> = {
+  easy: { enemySpeed: 0.75, spawnRate: 0.8, ammo: 1.5, blastRadius: 1.2 },
+  normal: { enemySpeed: 1, spawnRate: 1, ammo: 1, blastRadius: 1 },
+  hard: { enemySpeed: 1.25, spawnRate: 1.25, ammo: 0.75, blastRadius: 0.9 },
+  arcade: { enemySpeed: 1.5, spawnRate: 1.5, ammo: 0.5, blastRadius: 0.8 }
+};
+
+export interface GameOptions {
+  mode: GameMode;
+  difficulty: Difficulty;
+  players: PlayerMode;
+}
+
+export const DEFAULT_GAME_OPTIONS: GameOptions = { mode: 'classic', difficulty: 'normal', players: 'solo' };
+
+export function isGameMode(value: unknown): value is GameMode {
+  return (GAME_MODES as readonly unknown[]).includes(value);
+}
+
+export function isDifficulty(value: unknown): value is Difficulty {
+  return (DIFFICULTIES as readonly unknown[]).includes(value);
+}
+
+/** Classic ends at WIN_SCORE; endless and daily only end when the last battery falls. */
+export function hasScoreCap(mode: GameMode): boolean {
+  return mode === 'classic';
+}
+
+/** The campaign wave for a round, tuned to a difficulty preset. */
+export function applyDifficulty(wave: WaveDefinition, difficulty: Difficulty): WaveDefinition {
+  const preset = DIFFICULTY_PRESETS[difficulty];
+  return {
+    ...wave,
+    speed: {
+      min: wave.speed.min * preset.enemySpeed,
+      max: wave.speed.max * preset.enemySpeed
+    },
+    spawnInterval: {
+      min: wave.spawnInterval.min / preset.spawnRate,
+      max: wave.spawnInterval.max / preset.spawnRate
+    }
+  };
+}
@@ -0,0 +1,335 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { EnemyType, Entity, Point, PowerUpType } from './types';
+
+// --- Enemies ---
+
+/**
+ * Base for everything the dogs launch. Subclasses only move; the simulation
+ * reads `impacted` (reached its target) and `release` (child rockets to
+ * launch from `pos` this tick) after each update.
+ */
+export abstract class Enemy implements Entity {
+  kind: EnemyType = 'rocket';
+  score: number = 20;
+  pos: Point;
+  hp: number = 1;
+  hitBy: number[] = []; // Explosion ids that already damaged this enemy
+  targetIndex: number = -1; // Index of city or battery, -1 if none
+  owner: number = -1; // Versus: player who launched it, or its parent; -1 for the spawner
+  impacted: boolean = false;
+  release: number = 0;
+
+  constructor(pos: Point) {
+    this.pos = { ...pos };
+  }
+
+  abstract update(dt: number): boolean;
+
+  /**
+   * Applies one blast hit. Each explosion can only damage an enemy once.
+   * Returns true if the hit destroyed it.
+   */
+  hit(explosionId: number): boolean {
+    if (this.hitBy.includes(explosionId)) return false;
+    this.hitBy.push(explosionId);
+    this.hp--;
+    return this.hp <= 0;
+  }
+}
+
+export class EnemyRocket extends Enemy {
+  start: Point;
+  end: Point;
+  speed: number;
+
+  constructor(start: Point, end: Point, targetIndex: number, speed: number) {
+    super(start);
+    this.start = { ...start };
+    this.end = { ...end };
+    this.targetIndex = targetIndex;
+    this.speed = speed * (2 / 3); // Slowed down by 1/3
+  }
+
+  /** Re-initializes a pooled plain rocket as if it had just been constructed. */
+  init(start: Point, end: Point, targetIndex: number, speed: number): this {
+    this.kind = 'rocket';
+    this.score = 20;
+    this.hp = 1;
+    this.owner = -1;
+    this.hitBy.length = 0;
+    this.impacted = false;
+    this.release = 0;
+    this.pos.x = start.x;
+    this.pos.y = start.y;
+    this.start.x = start.x;
+    this.start.y = start.y;
+    this.end.x = end.x;
+    this.end.y = end.y;
+    this.targetIndex = targetIndex;
+    this.speed = speed * (2 / 3);
+    return this;
+  }
+
+  update(dt: number): boolean {
+    const dx = this.end.x - this.pos.x;
+    const dy = this.end.y - this.pos.y;
+    const dist = Math.sqrt(dx * dx + dy * dy);
+    
+    if (dist < 2) {
+      this.impacted = true;
+      return false;
+    }
+
+    const vx = (dx / dist) * this.speed * dt;
+    const vy = (dy / dist) * this.speed * dt;
+    
+    this.pos.x += vx;
+    this.pos.y += vy;
+    
+    return true;
+  }
+}
+
+/** Weaves side to side around the straight line to its target. */
+export class ZigZagRocket extends EnemyRocket {
+  base: Point; // Position on the straight path, before the weave offset
+  phase: number = 0;
+  amplitude: number;
+  frequency: number;
+
+  constructor(start: Point, end: Point, targetIndex: number, speed: number, amplitude = 30, frequency = 2.5) {
+    super(start, end, targetIndex, speed);
+    this.kind = 'zigzag';
+    this.score = 30;
+    this.base = { ...start };
+    this.amplitude = amplitude;
+    this.frequency = frequency;
+  }
+
+  update(dt: number): boolean {
+    const dx = this.end.x - this.base.x;
+    const dy = this.end.y - this.base.y;
+    const dist = Math.sqrt(dx * dx + dy * dy);
+
+    if (dist < 2) {
+      this.pos = { ...this.end };
+      this.impacted = true;
+      return false;
+    }
+
+    const step = Math.min(dist, this.speed * dt);
+    this.base.x += (dx / dist) * step;
+    this.base.y += (dy / dist) * step;
+
+    // Weave shrinks as the rocket closes in so it still lands on target
+    this.phase += this.frequency * Math.PI * 2 * dt;
+    const offset = Math.sin(this.phase) * this.amplitude * Math.min(1, dist / 100);
+    this.pos.x = this.base.x + (-dy / dist) * offset;
+    this.pos.y = this.base.y + (dx / dist) * offset;
+
+    return true;
+  }
+}
+
+/** Needs two blast hits from two different explosions. */
+export class ArmoredRocket extends EnemyRocket {
+  constructor(start: Point, end: Point, targetIndex: number, speed: number) {
+    super(start, end, targetIndex, speed * 0.8);
+    this.kind = 'armored';
+    this.score = 40;
+    this.hp = 2;
+  }
+}
+
+/** Splits into several child rockets once it falls below `splitY`. */
+export class MirvRocket extends EnemyRocket {
+  splitY: number;
+  children: number;
+
+  constructor(start: Point, end: Point, targetIndex: number, speed: number, splitY: number, children = 3) {
+    super(start, end, targetIndex, speed);
+    this.kind = 'mirv';
+    this.score = 30;
+    this.splitY = splitY;
+    this.children = children;
+  }
+
+  update(dt: number): boolean {
+    const alive = super.update(dt);
+    if (alive && this.pos.y >= this.splitY) {
+      this.release = this.children;
+      return false;
+    }
+    return alive;
+  }
+}
+
+/** Crosses the sky horizontally and drops a rocket every `dropInterval` seconds. */
+export class Bomber extends Enemy {
+  vx: number;
+  minX: number;
+  maxX: number;
+  dropInterval: number;
+  dropTimer: number;
+
+  constructor(start: Point, vx: number, width: number, dropInterval = 1.2) {
+    super(start);
+    this.kind = 'bomber';
+    this.score = 60;
+    this.vx = vx;
+    this.minX = -30;
+    this.maxX = width + 30;
+    this.dropInterval = dropInterval;
+    this.dropTimer = dropInterval / 2;
+  }
+
+  update(dt: number): boolean {
+    this.pos.x += this.vx * dt;
+    this.dropTimer -= dt;
+    if (this.dropTimer <= 0 && this.pos.x > 0 && this.pos.x < this.maxX - 30) {
+      this.release = 1;
+      this.dropTimer = this.dropInterval;
+    }
+    return this.pos.x >= this.minX && this.pos.x <= this.maxX;
+  }
+}
+
+// --- Player ---
+
+export class InterceptorMissile implements Entity {
+  start: Point;
+  target: Point;
+  pos: Point;
+  speed: number = 400;
+  owner: number = 0; // Player who fired it
+
+  constructor(start: Point, target: Point, speed?: number, owner = 0) {
+    if (speed !== undefined) this.speed = speed;
+    this.owner = owner;
+    this.start = { ...start };
+    this.target = { ...target };
+    this.pos = { ...start };
+  }
+
+  /** Re-initializes a pooled interceptor as if it had just been constructed. */
+  init(start: Point, target: Point, speed: number, owner: number): this {
+    this.speed = speed;
+    this.owner = owner;
+    this.start.x = start.x;
+    this.start.y = start.y;
+    this.target.x = target.x;
+    this.target.y = target.y;
+    this.pos.x = start.x;
+    this.pos.y = start.y;
+    return this;
+  }
+
+  update(dt: number): boolean {
+    const dx = this.target.x - this.pos.x;
+    const dy = this.target.y - this.pos.y;
+    const dist = Math.sqrt(dx * dx + dy * dy);
+    
+    if (dist < 5) return false;
+
+    const vx = (dx / dist) * this.speed * dt;
+    const vy = (dy / dist) * this.speed * dt;
+    
+    this.pos.x += vx;
+    this.pos.y += vy;
+    
+    return true;
+  }
+}
+
+export class Explosion implements Entity {
+  id: number;
+  chainId: number; // Id of the explosion that started this chain reaction
+  owner: number = -1; // Player whose interceptor started the chain, -1 for none
+  pos: Point;
+  radius: number = 0;
+  maxRadius: number = 45;
+  growing: boolean = true;
+  speed: number = 60;
+
+  constructor(pos: Point, id: number, maxRadius?: number, chainId: number = id) {
+    this.pos = { ...pos };
+    this.id = id;
+    this.chainId = chainId;
+    if (maxRadius !== undefined) this.maxRadius = maxRadius;
+  }
+
+  /** Re-initializes a pooled explosion as if it had just been constructed. */
+  init(pos: Point, id: number, maxRadius = 45, chainId: number = id): this {
+    this.pos.x = pos.x;
+    this.pos.y = pos.y;
+    this.id = id;
+    this.chainId = chainId;
+    this.owner = -1;
+    this.radius = 0;
+    this.maxRadius = maxRadius;
+    this.growing = true;
+    this.speed = 60;
+    return this;
+  }
+
+  update(dt: number): boolean {
+    if (this.growing) {
+      this.radius += this.speed * dt;
+      if (this.radius >= this.maxRadius) {
+        this.growing = false;
+      }
+    } else {
+      this.radius -= (this.speed * 0.6) * dt;
+    }
+    return this.radius > 0;
+  }
+}
+
+/** Floating "+points" label left where an enemy was destroyed. Cosmetic only. */
+export class ScorePopup implements Entity {
+  pos: Point;
+  points: number;
+  combo: number;
+  age: number = 0;
+  lifetime: number;
+
+  constructor(pos: Point, points: number, combo: number, lifetime: number) {
+    this.pos = { ...pos };
+    this.points = points;
+    this.combo = combo;
+    this.lifetime = lifetime;
+  }
+
+  update(dt: number): boolean {
+    this.age += dt;
+    this.pos.y -= 30 * dt;
+    return this.age < this.lifetime;
+  }
+}
+
+// --- Power-ups ---
+
+/**
+ * A crate drifting down under a parachute. A blast set off by a defender
+ * activates it; the simulation removes it when it reaches the ground.
+ */
+export class PowerUp implements Entity {
+  kind: PowerUpType;
+  pos: Point;
+  speed: number;
+
+  constructor(pos: Point, kind: PowerUpType, speed: number) {
+    this.pos = { ...pos };
+    this.kind = kind;
+    this.speed = speed;
+  }
+
+  update(dt: number): boolean {
+    this.pos.y += this.speed * dt;
+    return true;
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Difficulty, GameMode } from './difficulty';
+import type { PlayerMode } from './players';
+import type { GameState, RoundStats, Simulation } from './simulation';
+import type { Upgrades } from './upgrades';
+import type { GameEvent, GameStatus } from './types';
+
+export const HUD_INTERVAL = 0.1; // Seconds between HUD refreshes while only numbers change
+
+/** Everything the HUD and overlays show, copied out of the game state. */
+export interface HudSnapshot {
+  status: GameStatus;
+  mode: GameMode;
+  difficulty: Difficulty;
+  players: PlayerMode;
+  score: number;
+  playerScores: number[];
+  round: number;
+  citiesLeft: number;
+  upgrades: Upgrades;
+  slowed: boolean; // Slow-enemies purchase queued or active
+  shieldTime: number; // Seconds left on the longest-lasting city shield, 0 for none
+  shieldedCities: number;
+  slowMoTime: number;
+  roundStats: RoundStats;
+  roundBonus: number;
+}
+
+export function takeHudSnapshot(state: GameState): HudSnapshot {
+  return {
+    status: state.status,
+    mode: state.mode,
+    difficulty: state.difficulty,
+    players: state.players,
+    score: state.score,
+    playerScores: state.playerScores,
+    round: state.round,
+    citiesLeft: state.cities.filter(Boolean).length,
+    upgrades: state.upgrades,
+    slowed: state.upgrades.slowNextRound || state.enemySpeedScale < 1,
+    shieldTime: Math.max(0, ...state.shields),
+    shieldedCities: state.shields.filter(t => t > 0).length,
+    slowMoTime: state.slowMo,
+    roundStats: { ...state.roundStats },
+    roundBonus: state.roundBonus
+  };
+}
+
+/** Whether a power-up timer is counting down, so the HUD needs refreshing without any event. */
+function hasTimers(state: GameState): boolean {
+  return state.slowMo > 0 || state.shields.some(t => t > 0);
+}
+
+/** Events that change what an overlay shows; these publish right away. */
+function isUrgent(event: GameEvent): boolean {
+  return event.type === 'status' || event.type === 'gameStarted' || event.type === 'purchase';
+}
+
+/**
+ * Decides when the UI gets a fresh `HudSnapshot`. Status changes and
+ * purchases publish immediately; score and other number changes are
+ * batched and published at most every HUD_INTERVAL from the render loop's
+ * `update`, so a chain reaction costs one re-render instead of one per kill.
+ * Running power-up timers publish at the same rate.
+ */
+export class HudFeed {
+  private sim: Simulation;
+  private publish: (snapshot: HudSnapshot) => void;
+  private dirty = false;
+  private timing = false;
+  private sinceLast = 0;
+  private unsubscribe: () => void;
+
+  constructor(sim: Simulation, publish: (snapshot: HudSnapshot) => void) {
+    this.sim = sim;
+    this.publish = publish;
+    this.unsubscribe = sim.subscribe(event => {
+      if (isUrgent(event)) this.flush();
+      else if (event.type === 'score' || event.type === 'upgrades' || event.type === 'enemyDestroyed' || event.type === 'powerUpCollected') this.dirty = true;
+    });
+  }
+
+  /** Call once per rendered frame with the seconds since the last one. */
+  update(elapsed: number) {
+    this.sinceLast += elapsed;
+    // One more refresh after the last timer runs out, so it doesn't stick at 0.1s
+    const timing = hasTimers(this.sim.state);
+    if (timing || this.timing) this.dirty = true;
+    this.timing = timing;
+    if (this.dirty && this.sinceLast >= HUD_INTERVAL) this.flush();
+  }
+
+  flush() {
+    this.dirty = false;
+    this.sinceLast = 0;
+    this.publish(takeHudSnapshot(this.sim.state));
+  }
+
+  dispose() {
+    this.unsubscribe();
+  }
+}
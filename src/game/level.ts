@@ -0,0 +1,196 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { INITIAL_AMMO, PLAYFIELD_HEIGHT, PLAYFIELD_WIDTH } from './constants';
+import type { Point } from './types';
+
+export interface LevelBattery {
+  x: number;
+  ammo: number; // Magazine at normal difficulty, before upgrades
+}
+
+/** A solid block. Dogs and cats that fly into one blow up on it. */
+export interface Obstacle {
+  x: number; // Left edge
+  y: number; // Top edge
+  width: number;
+  height: number;
+}
+
+/**
+ * Where everything stands on the playfield, in playfield pixels. Batteries
+ * are ordered left to right, and target indices list the cities first,
+ * then the batteries.
+ */
+export interface Layout {
+  cities: number[]; // x of each city
+  batteries: LevelBattery[];
+  terrain: number[]; // Ground height above the bottom edge, at evenly spaced points from the left edge to the right
+  obstacles: Obstacle[];
+}
+
+/**
+ * A shareable layout, drawn on the 960x540 reference playfield and scaled
+ * to whatever size a game is played at.
+ */
+export interface Level extends Layout {
+  id: string;
+  name: string;
+}
+
+export const MAX_CITIES = 12;
+export const MAX_BATTERIES = 6;
+export const MAX_AMMO = 99;
+export const MAX_TERRAIN_POINTS = 33;
+export const MIN_GROUND = 10;
+export const MAX_OBSTACLES = 8;
+export const MIN_OBSTACLE_SIZE = 10;
+
+export class LevelError extends Error {
+  readonly path: string;
+
+  constructor(path: string, message: string) {
+    super(`${path}: ${message}`);
+    this.name = 'LevelError';
+    this.path = path;
+  }
+}
+
+// --- Geometry ---
+
+/** The original fixed playfield: six cities in two groups, three batteries, flat ground. */
+export function classicLayout(width: number, height: number): Layout {
+  const spacing = width / 9;
+  return {
+    cities: [spacing * 1.5, spacing * 2.5, spacing * 3.5, spacing * 5.5, spacing * 6.5, spacing * 7.5],
+    batteries: [40, width / 2, width - 40].map((x, i) => ({ x, ammo: INITIAL_AMMO[i] })),
+    terrain: [20, 20],
+    obstacles: []
+  };
+}
+
+/** Scales a level to a playfield. Batteries are sorted left to right, which co-op and the fire keys rely on. */
+export function resolveLayout(level: Layout, width: number, height: number): Layout {
+  const sx = width / PLAYFIELD_WIDTH;
+  const sy = height / PLAYFIELD_HEIGHT;
+  return {
+    cities: level.cities.map(x => x * sx).sort((a, b) => a - b),
+    batteries: level.batteries.map(b => ({ x: b.x * sx, ammo: b.ammo })).sort((a, b) => a.x - b.x),
+    terrain: level.terrain.map(h => h * sy),
+    obstacles: level.obstacles.map(o => ({ x: o.x * sx, y: o.y * sy, width: o.width * sx, height: o.height * sy }))
+  };
+}
+
+/** Ground height above the bottom edge at `x`, interpolated between terrain points. */
+export function terrainHeight(terrain: readonly number[], width: number, x: number): number {
+  const segments = terrain.length - 1;
+  const f = Math.max(0, Math.min(segments, (x / width) * segments));
+  const i = Math.min(segments - 1, Math.floor(f));
+  return terrain[i] + (terrain[i + 1] - terrain[i]) * (f - i);
+}
+
+export function hitsObstacle(layout: Layout, pos: Point): boolean {
+  const { obstacles } = layout;
+  for (let i = 0; i < obstacles.length; i++) {
+    const o = obstacles[i];
+    if (pos.x >= o.x && pos.x <= o.x + o.width && pos.y >= o.y && pos.y <= o.y + o.height) return true;
+  }
+  return false;
+}
+
+export function sameLayout(a: Layout, b: Layout): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// --- Validation ---
+
+function describe(value: unknown): string {
+  return value === undefined ? 'nothing' : JSON.stringify(value);
+}
+
+function expectObject(value: unknown, path: string): Record<string, unknown> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new LevelError(path, `expected an object, got ${describe(value)}`);
+  }
+  return value as Record<string, unknown>;
+}
+
+function expectString(value: unknown, path: string): string {
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new LevelError(path, `expected text, got ${describe(value)}`);
+  }
+  return value;
+}
+
+function expectNumber(value: unknown, path: string, min: number, max: number, integer = false): number {
+  if (typeof value !== 'number' || !Number.isFinite(value) || (integer && !Number.isInteger(value))) {
+    throw new LevelError(path, `expected a ${integer ? 'whole ' : ''}number, got ${describe(value)}`);
+  }
+  if (value < min || value > max) {
+    throw new LevelError(path, `must be between ${min} and ${max}, got ${value}`);
+  }
+  return value;
+}
+
+function expectList(value: unknown, path: string, min: number, max: number): unknown[] {
+  if (!Array.isArray(value) || value.length < min || value.length > max) {
+    throw new LevelError(path, `expected a list of ${min} to ${max} entries`);
+  }
+  return value;
+}
+
+/** Validates the geometry of a layout for a `width` x `height` playfield. */
+export function parseLayout(data: unknown, path: string, width: number, height: number): Layout {
+  const obj = expectObject(data, path);
+  return {
+    cities: expectList(obj.cities, `${path}.cities`, 1, MAX_CITIES)
+      .map((x, i) => expectNumber(x, `${path}.cities[${i}]`, 0, width)),
+    batteries: expectList(obj.batteries, `${path}.batteries`, 1, MAX_BATTERIES).map((value, i) => {
+      const battery = expectObject(value, `${path}.batteries[${i}]`);
+      return {
+        x: expectNumber(battery.x, `${path}.batteries[${i}].x`, 0, width),
+        ammo: expectNumber(battery.ammo, `${path}.batteries[${i}].ammo`, 1, MAX_AMMO, true)
+      };
+    }),
+    // Saves and replays hold layouts already scaled to their playfield, so the floor scales with it
+    terrain: expectList(obj.terrain, `${path}.terrain`, 2, MAX_TERRAIN_POINTS)
+      .map((h, i) => expectNumber(h, `${path}.terrain[${i}]`, MIN_GROUND * (height / PLAYFIELD_HEIGHT), height / 2)),
+    obstacles: expectList(obj.obstacles ?? [], `${path}.obstacles`, 0, MAX_OBSTACLES).map((value, i) => {
+      const p = `${path}.obstacles[${i}]`;
+      const o = expectObject(value, p);
+      const x = expectNumber(o.x, `${p}.x`, 0, width);
+      const y = expectNumber(o.y, `${p}.y`, 0, height);
+      return {
+        x,
+        y,
+        width: expectNumber(o.width, `${p}.width`, MIN_OBSTACLE_SIZE, width - x),
+        height: expectNumber(o.height, `${p}.height`, MIN_OBSTACLE_SIZE, height - y)
+      };
+    })
+  };
+}
+
+/** Validates raw JSON against the level schema. Throws `LevelError` naming the bad field. */
+export function parseLevel(data: unknown): Level {
+  const obj = expectObject(data, 'level');
+  return {
+    id: expectString(obj.id, 'level.id'),
+    name: expectString(obj.name, 'level.name'),
+    ...parseLayout(obj, 'level', PLAYFIELD_WIDTH, PLAYFIELD_HEIGHT)
+  };
+}
+
+export function serializeLevel(level: Level): string {
+  return JSON.stringify(level, null, 2);
+}
+
+// --- Built-in Levels ---
+
+export const DEFAULT_LEVEL: Level = { id: 'classic', name: 'Classic', ...classicLayout(PLAYFIELD_WIDTH, PLAYFIELD_HEIGHT) };
+export const BUILTIN_LEVELS: readonly Level[] = [DEFAULT_LEVEL];
+
+export function isBuiltinLevel(id: string): boolean {
+  return BUILTIN_LEVELS.some(level => level.id === id);
+}
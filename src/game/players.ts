@@ -0,0 +1,43 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export const PLAYER_MODES = ['solo', 'coop', 'versus'] as const;
+export type PlayerMode = typeof PLAYER_MODES[number];
+
+/** Points the attacker earns in versus when a dog lands. */
+export const CITY_HIT_POINTS = 50;
+export const BATTERY_HIT_POINTS = 100;
+
+/**
+ * In versus the attacker replaces the random spawner. It only steps in after
+ * the attacker has launched nothing for this many seconds, so a round can't
+ * stall, and then sends one dog at a time.
+ */
+export const VERSUS_IDLE_TIMEOUT = 5;
+
+export function isPlayerMode(value: unknown): value is PlayerMode {
+  return (PLAYER_MODES as readonly unknown[]).includes(value);
+}
+
+export function playerCount(mode: PlayerMode): number {
+  return mode === 'solo' ? 1 : 2;
+}
+
+/** Whether `player` defends the cities. In versus, player 2 attacks instead. */
+export function isDefender(mode: PlayerMode, player: number): boolean {
+  return mode !== 'versus' || player === 0;
+}
+
+/**
+ * Batteries each co-op player may fire from, of `count` ordered left to
+ * right: player 1 has the left half, player 2 the right half, and both share
+ * the middle one when the count is odd (the big center battery by default).
+ */
+export function canUseBattery(mode: PlayerMode, player: number, battery: number, count: number): boolean {
+  if (mode !== 'coop') return player === 0;
+  const middle = (count - 1) / 2;
+  if (player === 0) return battery <= middle;
+  return player === 1 && battery >= middle;
+}
@@ -0,0 +1,54 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Free list of reusable objects. Released objects only become available
+ * again after `flush()`, which the simulation calls at the start of each
+ * tick, so anything that looked at the state between two ticks (the
+ * renderer, the autopilot) never sees a recycled object under an old
+ * identity.
+ */
+export class Pool<T> {
+  private create: () => T;
+  private limit: number;
+  private free: T[] = [];
+  private pending: T[] = [];
+
+  constructor(create: () => T, limit = 2048) {
+    this.create = create;
+    this.limit = limit;
+  }
+
+  /** A released object if there is one, otherwise a new one. The caller re-initializes it. */
+  acquire(): T {
+    return this.free.pop() ?? this.create();
+  }
+
+  release(item: T) {
+    if (this.free.length + this.pending.length < this.limit) this.pending.push(item);
+  }
+
+  flush() {
+    for (let i = 0; i < this.pending.length; i++) this.free.push(this.pending[i]);
+    this.pending.length = 0;
+  }
+
+  get available(): number {
+    return this.free.length;
+  }
+}
+
+/**
+ * Removes every item `keep` rejects, in place and in order. `keep` runs
+ * exactly once per item, in order, like `Array.filter`.
+ */
+export function retain<T>(items: T[], keep: (item: T, index: number) => boolean): void {
+  let write = 0;
+  for (let read = 0; read < items.length; read++) {
+    const item = items[read];
+    if (keep(item, read)) items[write++] = item;
+  }
+  items.length = write;
+}
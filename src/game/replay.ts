@@ -0,0 +1,285 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { FIXED_DT, GAME_VERSION, MAX_FRAME_TIME } from './constants';
+import { DEFAULT_GAME_OPTIONS, isDifficulty, isGameMode, type Difficulty, type GameMode } from './difficulty';
+import { classicLayout, parseLayout, type Layout } from './level';
+import { isPlayerMode, type PlayerMode } from './players';
+import { Simulation } from './simulation';
+import { SHOP_ITEM_IDS, type ShopItemId } from './upgrades';
+import { GameStatus, type GameInput } from './types';
+
+export const REPLAY_VERSION = 1;
+export const REPLAY_SPEEDS = [0.5, 1, 2, 4];
+
+export interface ReplayInput {
+  tick: number;
+  input: GameInput;
+}
+
+export interface Replay {
+  version: number;
+  gameVersion: string;
+  seed: number;
+  mode: GameMode;
+  difficulty: Difficulty;
+  players: PlayerMode;
+  blastScale: number;
+  lang: string;
+  width: number;
+  height: number;
+  layout: Layout;
+  endTick: number;
+  finalScore: number;
+  recordedAt: string;
+  inputs: ReplayInput[];
+}
+
+export class ReplayError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReplayError';
+  }
+}
+
+// --- Recording ---
+
+/**
+ * Listens to a live simulation and keeps the seed plus every accepted input
+ * of the current game, so it can be turned into a `Replay` at any time.
+ * It stays subscribed for as long as the simulation lives.
+ */
+export class ReplayRecorder {
+  private sim: Simulation;
+  private getLang: () => string;
+  private seed = 0;
+  private mode: GameMode = DEFAULT_GAME_OPTIONS.mode;
+  private difficulty: Difficulty = DEFAULT_GAME_OPTIONS.difficulty;
+  private players: PlayerMode = DEFAULT_GAME_OPTIONS.players;
+  private blastScale = 1;
+  private lang = '';
+  private width = 0;
+  private height = 0;
+  private layout: Layout = classicLayout(0, 0);
+  private inputs: ReplayInput[] = [];
+
+  constructor(sim: Simulation, getLang: () => string) {
+    this.sim = sim;
+    this.getLang = getLang;
+    sim.subscribe(event => {
+      if (event.type === 'gameStarted') {
+        this.seed = event.seed;
+        this.mode = sim.state.mode;
+        this.difficulty = sim.state.difficulty;
+        this.players = sim.state.players;
+        this.blastScale = sim.state.blastScale;
+        this.lang = this.getLang();
+        this.width = sim.state.width;
+        this.height = sim.state.height;
+        this.layout = sim.state.layout;
+        this.inputs = [];
+      } else if (event.type === 'input') {
+        this.inputs.push({ tick: event.tick, input: { ...event.input } });
+      }
+    });
+  }
+
+  /** Continues recording a resumed game, or forgets the last one if its recording was lost. */
+  resume(replay: Replay | null) {
+    this.seed = replay?.seed ?? 0;
+    this.mode = replay?.mode ?? DEFAULT_GAME_OPTIONS.mode;
+    this.difficulty = replay?.difficulty ?? DEFAULT_GAME_OPTIONS.difficulty;
+    this.players = replay?.players ?? DEFAULT_GAME_OPTIONS.players;
+    this.blastScale = replay?.blastScale ?? 1;
+    this.lang = replay?.lang ?? '';
+    this.width = replay?.width ?? 0;
+    this.height = replay?.height ?? 0;
+    this.layout = replay?.layout ?? classicLayout(0, 0);
+    this.inputs = replay ? replay.inputs.map(i => ({ tick: i.tick, input: { ...i.input } })) : [];
+  }
+
+  get hasGame(): boolean {
+    return this.width > 0;
+  }
+
+  toReplay(): Replay {
+    return {
+      version: REPLAY_VERSION,
+      gameVersion: GAME_VERSION,
+      seed: this.seed,
+      mode: this.mode,
+      difficulty: this.difficulty,
+      players: this.players,
+      blastScale: this.blastScale,
+      lang: this.lang,
+      width: this.width,
+      height: this.height,
+      layout: this.layout,
+      endTick: this.sim.state.tick,
+      finalScore: this.sim.state.score,
+      recordedAt: new Date().toISOString(),
+      inputs: this.inputs.map(i => ({ tick: i.tick, input: { ...i.input } }))
+    };
+  }
+}
+
+// --- Playback ---
+
+/**
+ * Re-runs a recorded game on its own simulation. Inputs are applied right
+ * before the tick they were recorded on, exactly as they were live.
+ */
+export class ReplayPlayer {
+  readonly replay: Replay;
+  readonly sim: Simulation;
+  speed = 1;
+  paused = false;
+  private cursor = 0;
+  private accumulator = 0;
+
+  constructor(replay: Replay) {
+    this.replay = replay;
+    this.sim = new Simulation(replay.width, replay.height);
+    this.sim.startGame(replay.seed, { mode: replay.mode, difficulty: replay.difficulty, players: replay.players }, replay.blastScale, replay.layout);
+  }
+
+  get tick(): number {
+    return this.sim.state.tick;
+  }
+
+  get finished(): boolean {
+    const status = this.sim.state.status;
+    return this.tick >= this.replay.endTick || status === GameStatus.GAME_OVER || status === GameStatus.WIN;
+  }
+
+  /** Advances exactly one simulation tick, regardless of pause state. */
+  stepFrame() {
+    if (this.finished) return;
+    const inputs = this.replay.inputs;
+    while (this.cursor < inputs.length && inputs[this.cursor].tick <= this.tick) {
+      this.sim.apply(inputs[this.cursor].input);
+      this.cursor++;
+    }
+    this.sim.step();
+  }
+
+  advance(elapsed: number) {
+    if (this.paused || this.finished) return;
+    this.accumulator += Math.min(MAX_FRAME_TIME, Math.max(0, elapsed)) * this.speed;
+    while (this.accumulator >= FIXED_DT && !this.finished) {
+      this.accumulator -= FIXED_DT;
+      this.stepFrame();
+    }
+  }
+}
+
+// --- File Format ---
+
+export function serializeReplay(replay: Replay): string {
+  return JSON.stringify(replay);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function parseInput(raw: unknown, index: number): ReplayInput {
+  const entry = raw as { tick?: unknown; input?: { type?: unknown; x?: unknown; y?: unknown; battery?: unknown; player?: unknown; item?: unknown } } | null;
+  if (!entry || typeof entry !== 'object' || !isFiniteNumber(entry.tick) || !entry.input) {
+    throw new ReplayError(`Input #${index} is malformed`);
+  }
+  const { input } = entry;
+  if (input.type === 'fire') {
+    if (!isFiniteNumber(input.x) || !isFiniteNumber(input.y)) {
+      throw new ReplayError(`Input #${index} has an invalid fire position`);
+    }
+    const fire: GameInput = { type: 'fire', x: input.x, y: input.y };
+    if (input.battery !== undefined) {
+      if (!Number.isInteger(input.battery)) {
+        throw new ReplayError(`Input #${index} has an invalid battery`);
+      }
+      fire.battery = input.battery as number;
+    }
+    if (input.player !== undefined) {
+      if (!Number.isInteger(input.player)) {
+        throw new ReplayError(`Input #${index} has an invalid player`);
+      }
+      fire.player = input.player as number;
+    }
+    return { tick: entry.tick, input: fire };
+  }
+  if (input.type === 'attack') {
+    if (!isFiniteNumber(input.x)) {
+      throw new ReplayError(`Input #${index} has an invalid attack position`);
+    }
+    return { tick: entry.tick, input: { type: 'attack', x: input.x } };
+  }
+  if (input.type === 'nextRound') {
+    return { tick: entry.tick, input: { type: 'nextRound' } };
+  }
+  if (input.type === 'buy') {
+    if (!(SHOP_ITEM_IDS as readonly unknown[]).includes(input.item)) {
+      throw new ReplayError(`Input #${index} buys unknown item "${String(input.item)}"`);
+    }
+    return { tick: entry.tick, input: { type: 'buy', item: input.item as ShopItemId } };
+  }
+  throw new ReplayError(`Input #${index} has unknown type "${String(input.type)}"`);
+}
+
+/** Parses and validates a replay file. Throws `ReplayError` on bad data. */
+export function parseReplay(text: string): Replay {
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ReplayError('Replay file is not valid JSON');
+  }
+  if (!data || typeof data !== 'object') {
+    throw new ReplayError('Replay file is empty');
+  }
+  if (data.version !== REPLAY_VERSION) {
+    throw new ReplayError(`Unsupported replay version: ${String(data.version)}`);
+  }
+  if (data.gameVersion !== GAME_VERSION) {
+    throw new ReplayError(`Replay was recorded with game version ${String(data.gameVersion)}, this is ${GAME_VERSION}`);
+  }
+  for (const key of ['seed', 'width', 'height', 'endTick', 'finalScore'] as const) {
+    if (!isFiniteNumber(data[key])) {
+      throw new ReplayError(`Replay field "${key}" is missing or not a number`);
+    }
+  }
+  if (!Array.isArray(data.inputs)) {
+    throw new ReplayError('Replay field "inputs" is missing');
+  }
+  const width = data.width as number;
+  const height = data.height as number;
+
+  // Replays from before custom levels were all on the fixed layout
+  let layout: Layout;
+  try {
+    layout = data.layout === undefined ? classicLayout(width, height) : parseLayout(data.layout, 'layout', width, height);
+  } catch (err) {
+    throw new ReplayError(`Replay has an invalid level (${err instanceof Error ? err.message : String(err)})`);
+  }
+
+  return {
+    version: REPLAY_VERSION,
+    gameVersion: GAME_VERSION,
+    seed: data.seed as number,
+    // Replays from before difficulty presets were all classic/normal
+    mode: isGameMode(data.mode) ? data.mode : DEFAULT_GAME_OPTIONS.mode,
+    difficulty: isDifficulty(data.difficulty) ? data.difficulty : DEFAULT_GAME_OPTIONS.difficulty,
+    players: isPlayerMode(data.players) ? data.players : DEFAULT_GAME_OPTIONS.players,
+    blastScale: isFiniteNumber(data.blastScale) && data.blastScale > 0 ? data.blastScale : 1,
+    lang: typeof data.lang === 'string' ? data.lang : '',
+    width,
+    height,
+    layout,
+    endTick: data.endTick as number,
+    finalScore: data.finalScore as number,
+    recordedAt: typeof data.recordedAt === 'string' ? data.recordedAt : '',
+    inputs: data.inputs.map(parseInput)
+  };
+}
@@ -0,0 +1,59 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Seedable PRNG (mulberry32). The whole generator is a single 32-bit integer,
+ * so it lives in the game state and survives cloning/serialization. All game
+ * randomness must go through here; never call Math.random() from the rules.
+ */
+export interface Rng {
+  seed: number;
+  state: number;
+}
+
+export function createRng(seed: number): Rng {
+  const s = seed >>> 0;
+  return { seed: s, state: s };
+}
+
+/** Picks a fresh seed for a new game. The only non-deterministic call. */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
+
+/** Returns a float in [0, 1) and advances the generator. */
+export function nextFloat(rng: Rng): number {
+  rng.state = (rng.state + 0x6d2b79f5) >>> 0;
+  let t = rng.state;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+
+/** Returns an integer in [0, max). */
+export function nextInt(rng: Rng, max: number): number {
+  return Math.floor(nextFloat(rng) * max);
+}
+
+/** Returns a float in [min, max). */
+export function nextRange(rng: Rng, min: number, max: number): number {
+  return min + nextFloat(rng) * (max - min);
+}
+
+/** Returns an integer in [min, max], both inclusive. */
+export function nextIntRange(rng: Rng, min: number, max: number): number {
+  return min + nextInt(rng, max - min + 1);
+}
+
+/** Picks an item with probability proportional to its weight. */
+export function pickWeighted<T>(rng: Rng, items: T[], weights: number[]): T {
+  const total = weights.reduce((a, b) => a + b, 0);
+  let roll = nextFloat(rng) * total;
+  for (let i = 0; i < items.length; i++) {
+    roll -= weights[i];
+    if (roll < 0) return items[i];
+  }
+  return items[items.length - 1];
+}
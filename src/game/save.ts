@@ -0,0 +1,293 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GAME_VERSION } from './constants';
+import { isDifficulty, isGameMode } from './difficulty';
+import { classicLayout, parseLayout, type Layout } from './level';
+import { isPlayerMode, playerCount } from './players';
+import { ArmoredRocket, Bomber, Enemy, EnemyRocket, Explosion, InterceptorMissile, MirvRocket, PowerUp, ScorePopup, ZigZagRocket } from './entities';
+import { parseReplay, serializeReplay, type Replay } from './replay';
+import { createRoundStats, type GameState } from './simulation';
+import { createUpgrades } from './upgrades';
+import { ENEMY_TYPES, GameStatus, POWER_UP_TYPES, type EnemyType } from './types';
+
+export const SAVE_VERSION = 8;
+
+/** A game in progress, as written to storage. */
+export interface SaveData {
+  version: number;
+  gameVersion: string;
+  savedAt: string;
+  state: Record<string, unknown>; // GameState with every entity flattened to plain data
+  replay: Replay | null; // Recording so far, so the game stays watchable after resuming
+}
+
+export interface LoadedGame {
+  state: GameState;
+  replay: Replay | null;
+  savedAt: string;
+}
+
+export class SaveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SaveError';
+  }
+}
+
+type RawSave = Record<string, unknown>;
+
+/**
+ * `MIGRATIONS[n]` upgrades a version n save to version n + 1. Add one here
+ * whenever `SAVE_VERSION` is bumped so older saves keep loading.
+ */
+const MIGRATIONS: Record<number, (save: RawSave) => RawSave> = {
+  // v2: difficulty presets and endless mode; older games were classic/normal
+  1: save => ({ ...save, state: { ...(save.state as object), mode: 'classic', difficulty: 'normal' } }),
+  // v3: whole-game stats for accuracy; earlier rounds went uncounted
+  2: save => ({ ...save, state: { ...(save.state as object), totals: {} } }),
+  // v4: local multiplayer; explosions name the player who caused them
+  3: save => {
+    const state = save.state as RawSave;
+    const explosions = Array.isArray(state.explosions) ? state.explosions : [];
+    return {
+      ...save,
+      state: {
+        ...state,
+        players: 'solo',
+        playerScores: [state.score],
+        attackCooldown: 0,
+        explosions: explosions.map(({ fromPlayer, ...e }) => ({ ...e, owner: fromPlayer ? 0 : -1 }))
+      }
+    };
+  },
+  // v5: "bigger blasts" assist; older games were played without it
+  4: save => ({ ...save, state: { ...(save.state as object), blastScale: 1 } }),
+  // v6: custom levels; older games were played on the fixed layout
+  5: save => {
+    const state = save.state as RawSave;
+    const { width, height } = state;
+    const layout = typeof width === 'number' && typeof height === 'number' ? classicLayout(width, height) : undefined;
+    return { ...save, state: { ...state, layout } };
+  },
+  // v7: power-ups; none were falling or running in older games
+  6: save => {
+    const state = save.state as RawSave;
+    const layout = state.layout as Layout | undefined;
+    const shields = layout && Array.isArray(layout.cities) ? layout.cities.map(() => 0) : undefined;
+    return { ...save, state: { ...state, powerUps: [], shields, slowMo: 0 } };
+  },
+  // v8: versus pays only for the attacker's own dogs; older ones count as the spawner's
+  7: save => {
+    const state = save.state as RawSave;
+    const enemies = Array.isArray(state.enemies) ? state.enemies : [];
+    return { ...save, state: { ...state, enemies: enemies.map(e => ({ ...e, owner: -1 })) } };
+  }
+};
+
+const ENEMY_CLASSES: Record<EnemyType, { prototype: Enemy }> = {
+  rocket: EnemyRocket,
+  zigzag: ZigZagRocket,
+  armored: ArmoredRocket,
+  mirv: MirvRocket,
+  bomber: Bomber
+};
+
+// --- Writing ---
+
+/** Snapshots a game in progress. Entities keep all their fields, so nothing in flight is lost. */
+export function createSave(state: GameState, replay: Replay | null): SaveData {
+  return {
+    version: SAVE_VERSION,
+    gameVersion: GAME_VERSION,
+    savedAt: new Date().toISOString(),
+    state: JSON.parse(JSON.stringify(state)),
+    replay
+  };
+}
+
+export function serializeSave(save: SaveData): string {
+  return JSON.stringify(save);
+}
+
+// --- Reading ---
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isPoint(value: unknown): boolean {
+  return isObject(value) && isFiniteNumber(value.x) && isFiniteNumber(value.y);
+}
+
+function expectNumber(state: RawSave, key: string): number {
+  const value = state[key];
+  if (!isFiniteNumber(value)) throw new SaveError(`Save field "${key}" is missing or not a number`);
+  return value;
+}
+
+function expectFlags(state: RawSave, key: string, length: number): boolean[] {
+  const value = state[key];
+  if (!Array.isArray(value) || value.length !== length || !value.every(v => typeof v === 'boolean')) {
+    throw new SaveError(`Save field "${key}" is malformed`);
+  }
+  return value;
+}
+
+function expectTimers(state: RawSave, key: string, length: number): number[] {
+  const value = state[key];
+  if (!Array.isArray(value) || value.length !== length || !value.every(v => isFiniteNumber(v) && v >= 0)) {
+    throw new SaveError(`Save field "${key}" is malformed`);
+  }
+  return value;
+}
+
+function expectLayout(state: RawSave): Layout {
+  try {
+    return parseLayout(state.layout, 'layout', expectNumber(state, 'width'), expectNumber(state, 'height'));
+  } catch (err) {
+    if (err instanceof SaveError) throw err;
+    throw new SaveError(`Save field "layout" is malformed (${err instanceof Error ? err.message : String(err)})`);
+  }
+}
+
+/** Re-creates a class instance from its saved fields without running the constructor. */
+function revive<T extends object>(proto: T, data: unknown, what: string): T {
+  if (!isObject(data) || !isPoint(data.pos)) throw new SaveError(`Saved ${what} is malformed`);
+  return Object.assign(Object.create(proto), data);
+}
+
+function reviveList<T extends object>(value: unknown, key: string, revive: (data: unknown) => T): T[] {
+  if (!Array.isArray(value)) throw new SaveError(`Save field "${key}" is missing`);
+  return value.map(revive);
+}
+
+function reviveEnemy(data: unknown): Enemy {
+  const kind = isObject(data) ? data.kind : undefined;
+  if (!(ENEMY_TYPES as readonly unknown[]).includes(kind)) {
+    throw new SaveError(`Saved enemy has unknown kind "${String(kind)}"`);
+  }
+  return revive(ENEMY_CLASSES[kind as EnemyType].prototype, data, 'enemy');
+}
+
+function revivePowerUp(data: unknown): PowerUp {
+  const kind = isObject(data) ? data.kind : undefined;
+  if (!(POWER_UP_TYPES as readonly unknown[]).includes(kind)) {
+    throw new SaveError(`Saved power-up has unknown kind "${String(kind)}"`);
+  }
+  return revive(PowerUp.prototype, data, 'power-up');
+}
+
+function restoreState(raw: unknown): GameState {
+  if (!isObject(raw)) throw new SaveError('Save has no game state');
+  const status = raw.status;
+  if (status !== GameStatus.PLAYING && status !== GameStatus.PAUSED && status !== GameStatus.ROUND_END) {
+    throw new SaveError(`Saved game is not in progress (${String(status)})`);
+  }
+  const rng = raw.rng;
+  if (!isObject(rng) || !isFiniteNumber(rng.seed) || !isFiniteNumber(rng.state)) {
+    throw new SaveError('Save field "rng" is malformed');
+  }
+  const layout = expectLayout(raw);
+  const ammo = raw.ammo;
+  if (!Array.isArray(ammo) || ammo.length !== layout.batteries.length || !ammo.every(isFiniteNumber)) {
+    throw new SaveError('Save field "ammo" is malformed');
+  }
+  if (!isGameMode(raw.mode) || !isDifficulty(raw.difficulty) || !isPlayerMode(raw.players)) {
+    throw new SaveError('Save has an unknown mode, difficulty or player setup');
+  }
+  const playerScores = raw.playerScores;
+  if (!Array.isArray(playerScores) || playerScores.length !== playerCount(raw.players) || !playerScores.every(isFiniteNumber)) {
+    throw new SaveError('Save field "playerScores" is malformed');
+  }
+  for (const key of ['upgrades', 'wave', 'chainKills', 'roundStats', 'totals'] as const) {
+    if (!isObject(raw[key])) throw new SaveError(`Save field "${key}" is missing`);
+  }
+
+  return {
+    // A round interrupted mid-play comes back paused, never straight into live fire
+    status: status === GameStatus.ROUND_END ? GameStatus.ROUND_END : GameStatus.PAUSED,
+    mode: raw.mode,
+    difficulty: raw.difficulty,
+    players: raw.players,
+    blastScale: expectNumber(raw, 'blastScale'),
+    rng: { seed: rng.seed >>> 0, state: rng.state >>> 0 },
+    tick: expectNumber(raw, 'tick'),
+    nextId: expectNumber(raw, 'nextId'),
+    score: expectNumber(raw, 'score'),
+    playerScores,
+    round: expectNumber(raw, 'round'),
+    ammo,
+    upgrades: { ...createUpgrades(), ...(raw.upgrades as object) },
+    roundBonus: expectNumber(raw, 'roundBonus'),
+    enemySpeedScale: expectNumber(raw, 'enemySpeedScale'),
+    wave: raw.wave as unknown as GameState['wave'],
+    layout,
+    cities: expectFlags(raw, 'cities', layout.cities.length),
+    batteries: expectFlags(raw, 'batteries', layout.batteries.length),
+    enemies: reviveList(raw.enemies, 'enemies', reviveEnemy),
+    interceptors: reviveList(raw.interceptors, 'interceptors', d => revive(InterceptorMissile.prototype, d, 'interceptor')),
+    explosions: reviveList(raw.explosions, 'explosions', d => revive(Explosion.prototype, d, 'explosion')),
+    popups: reviveList(raw.popups, 'popups', d => revive(ScorePopup.prototype, d, 'score popup')),
+    powerUps: reviveList(raw.powerUps, 'powerUps', revivePowerUp),
+    shields: expectTimers(raw, 'shields', layout.cities.length),
+    slowMo: expectNumber(raw, 'slowMo'),
+    chainKills: raw.chainKills as Record<number, number>,
+    roundStats: { ...createRoundStats(), ...(raw.roundStats as object) },
+    totals: { ...createRoundStats(), ...(raw.totals as object) },
+    spawnTimer: expectNumber(raw, 'spawnTimer'),
+    attackCooldown: expectNumber(raw, 'attackCooldown'),
+    enemiesToSpawn: expectNumber(raw, 'enemiesToSpawn'),
+    width: expectNumber(raw, 'width'),
+    height: expectNumber(raw, 'height')
+  };
+}
+
+/** Brings an older save up to `SAVE_VERSION`, one migration at a time. */
+function migrate(save: RawSave): RawSave {
+  let version = save.version;
+  if (!Number.isInteger(version) || (version as number) < 1 || (version as number) > SAVE_VERSION) {
+    throw new SaveError(`Unsupported save version: ${String(version)}`);
+  }
+  while ((version as number) < SAVE_VERSION) {
+    const step = MIGRATIONS[version as number];
+    if (!step) throw new SaveError(`No migration from save version ${String(version)}`);
+    save = { ...step(save), version: (version as number) + 1 };
+    version = save.version;
+  }
+  return save;
+}
+
+/** Parses, migrates and validates a save. Throws `SaveError` on bad data. */
+export function parseSave(text: string): LoadedGame {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new SaveError('Save is not valid JSON');
+  }
+  if (!isObject(data)) throw new SaveError('Save is empty');
+  const save = migrate(data);
+
+  // A rules change invalidates the recording, not the game itself
+  let replay: Replay | null = null;
+  if (isObject(save.replay)) {
+    try {
+      replay = parseReplay(serializeReplay(save.replay as unknown as Replay));
+    } catch {
+      replay = null;
+    }
+  }
+
+  return {
+    state: restoreState(save.state),
+    replay,
+    savedAt: typeof save.savedAt === 'string' ? save.savedAt : ''
+  };
+}
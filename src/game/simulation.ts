@@ -0,0 +1,848 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { AMMO_BONUS, CHAIN_RADIUS, FIXED_DT, MAX_COMBO, MAX_FRAME_TIME, POPUP_LIFETIME, POWER_UP_SPEED, SHIELD_DURATION, SLOW_MO_DURATION, SLOW_MO_SCALE, WIN_SCORE } from './constants';
+import { ArmoredRocket, Bomber, Enemy, EnemyRocket, Explosion, InterceptorMissile, MirvRocket, PowerUp, ScorePopup, ZigZagRocket } from './entities';
+import { classicLayout, hitsObstacle, terrainHeight, type Layout } from './level';
+import { DEFAULT_GAME_OPTIONS, applyDifficulty, hasScoreCap, type Difficulty, type GameMode, type GameOptions } from './difficulty';
+import { BATTERY_HIT_POINTS, CITY_HIT_POINTS, VERSUS_IDLE_TIMEOUT, canUseBattery, isDefender, playerCount, type PlayerMode } from './players';
+import { Pool, retain } from './pool';
+import { createRng, nextFloat, nextIntRange, nextRange, pickWeighted, randomSeed, type Rng } from './rng';
+import { MAX_UPGRADE_LEVEL, SLOW_ENEMY_SCALE, blastRadius, createUpgrades, interceptorSpeed, itemCost, maxAmmo, type ShopItemId, type Upgrades } from './upgrades';
+import { SpatialGrid } from './spatialGrid';
+import { DEFAULT_CAMPAIGN, waveForRound, type Campaign, type WaveDefinition } from './waves';
+import { GameStatus, type EnemyType, type GameEvent, type GameInput, type GameListener, type Point, type PowerUpType } from './types';
+
+export interface RoundStats {
+  shots: number;
+  hits: number; // Shots whose blast destroyed at least one enemy, directly or by chain
+  kills: number;
+  bestChain: number; // Most kills credited to a single chain reaction
+}
+
+export interface GameState {
+  status: GameStatus;
+  mode: GameMode;
+  difficulty: Difficulty;
+  players: PlayerMode;
+  blastScale: number; // Assist multiplier on player blasts, fixed for the whole game
+  rng: Rng;
+  tick: number; // Fixed ticks simulated since the game started
+  nextId: number; // Next explosion id
+  score: number; // Defending side's score; the shop spends from it
+  playerScores: number[]; // Points each player earned, never spent
+  round: number;
+  ammo: number[];
+  upgrades: Upgrades;
+  roundBonus: number; // Ammo bonus awarded when the last round ended
+  enemySpeedScale: number; // Below 1 while a "slow enemies" purchase is active
+  wave: WaveDefinition;
+  layout: Layout; // Fixed for the whole game
+  cities: boolean[];
+  batteries: boolean[];
+  enemies: Enemy[];
+  interceptors: InterceptorMissile[];
+  explosions: Explosion[];
+  popups: ScorePopup[];
+  powerUps: PowerUp[]; // Crates still falling
+  shields: number[]; // Seconds left on each city's dome shield, 0 for none
+  slowMo: number; // Seconds of slow-motion left
+  chainKills: Record<number, number>; // Kills so far per live chain id
+  roundStats: RoundStats;
+  totals: RoundStats; // Same counters for the whole game
+  spawnTimer: number;
+  attackCooldown: number; // Versus: seconds until the attacker may launch again
+  enemiesToSpawn: number;
+  width: number;
+  height: number;
+}
+
+export function createGameState(
+  width: number,
+  height: number,
+  seed: number = randomSeed(),
+  campaign: Campaign = DEFAULT_CAMPAIGN,
+  layout: Layout = classicLayout(width, height)
+): GameState {
+  return {
+    status: GameStatus.START,
+    mode: DEFAULT_GAME_OPTIONS.mode,
+    difficulty: DEFAULT_GAME_OPTIONS.difficulty,
+    players: DEFAULT_GAME_OPTIONS.players,
+    blastScale: 1,
+    rng: createRng(seed),
+    tick: 0,
+    nextId: 1,
+    score: 0,
+    playerScores: [0],
+    round: 1,
+    ammo: layout.batteries.map(b => b.ammo),
+    upgrades: createUpgrades(),
+    roundBonus: 0,
+    enemySpeedScale: 1,
+    wave: waveForRound(campaign, 1),
+    layout,
+    cities: new Array(layout.cities.length).fill(true),
+    batteries: new Array(layout.batteries.length).fill(true),
+    enemies: [],
+    interceptors: [],
+    explosions: [],
+    popups: [],
+    powerUps: [],
+    shields: new Array(layout.cities.length).fill(0),
+    slowMo: 0,
+    chainKills: {},
+    roundStats: createRoundStats(),
+    totals: createRoundStats(),
+    spawnTimer: 0,
+    attackCooldown: 0,
+    enemiesToSpawn: 0,
+    width,
+    height
+  };
+}
+
+export function createRoundStats(): RoundStats {
+  return { shots: 0, hits: 0, kills: 0, bestChain: 0 };
+}
+
+// --- Playfield Geometry ---
+
+const FIRE_CLEARANCE = 40; // Clicks closer to the ground than this are ignored
+
+/** Where the ground surface is at `x`. */
+export function groundY(state: GameState, x: number): number {
+  return state.height - terrainHeight(state.layout.terrain, state.width, x);
+}
+
+/** The lowest point `Simulation.fire` accepts at `x`. */
+export function fireFloor(state: GameState, x: number): number {
+  return groundY(state, x) - FIRE_CLEARANCE;
+}
+
+/** The x of a target: cities first, then batteries. */
+export function targetX(state: GameState, targetIdx: number): number {
+  const { cities, batteries } = state.layout;
+  return targetIdx < cities.length ? cities[targetIdx] : batteries[targetIdx - cities.length].x;
+}
+
+/** Where a dog aims for a city or battery, and where cats leave a battery. */
+export function structurePoint(state: GameState, x: number): Point {
+  return { x, y: groundY(state, x) - 20 };
+}
+
+export function ammoBonus(ammo: number[]): number {
+  return ammo.reduce((a, b) => a + b, 0) * AMMO_BONUS;
+}
+
+/** The standing city or battery (battery indices follow the cities) closest to `x`, or -1. */
+export function attackTarget(state: GameState, x: number): number {
+  const { cities, batteries } = state.layout;
+  const candidates = [
+    ...cities.map((cx, i) => ({ index: i, x: cx, alive: state.cities[i] })),
+    ...batteries.map((b, i) => ({ index: i + cities.length, x: b.x, alive: state.batteries[i] }))
+  ].filter(c => c.alive);
+  let best = -1;
+  let bestDist = Infinity;
+  for (const c of candidates) {
+    const d = Math.abs(c.x - x);
+    if (d < bestDist) {
+      bestDist = d;
+      best = c.index;
+    }
+  }
+  return best;
+}
+
+// --- Simulation ---
+
+const ORIGIN: Point = { x: 0, y: 0 };
+const GRID_CELL_SIZE = 64; // About one blast radius, so most queries touch four cells
+
+/**
+ * Headless game rules. Owns the authoritative game state, accepts player
+ * input through `apply` (or `fire`/`nextRound`), advances in fixed ticks with `step()` and reports
+ * everything that happened to subscribers. Knows nothing about React or the
+ * canvas. Given the same seed and the same inputs on the same ticks, two
+ * simulations always produce the same game.
+ */
+export class Simulation {
+  readonly state: GameState;
+  readonly campaign: Campaign;
+  private listeners = new Set<GameListener>();
+  private accumulator = 0;
+
+  // Per-tick scratch space, reused so a steady-state tick allocates as little as possible
+  private rocketPool = new Pool(() => new EnemyRocket(ORIGIN, ORIGIN, -1, 0));
+  private interceptorPool = new Pool(() => new InterceptorMissile(ORIGIN, ORIGIN));
+  private explosionPool = new Pool(() => new Explosion(ORIGIN, 0));
+  private grid = new SpatialGrid(GRID_CELL_SIZE);
+  private candidates: number[] = [];
+  private destroyed: boolean[] = [];
+  private secondaries: Explosion[] = [];
+  private spawned: Enemy[] = [];
+
+  constructor(width: number, height: number, campaign: Campaign = DEFAULT_CAMPAIGN) {
+    this.campaign = campaign;
+    this.state = createGameState(width, height, randomSeed(), campaign);
+  }
+
+  subscribe(listener: GameListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit(event: GameEvent) {
+    this.listeners.forEach(listener => listener(event));
+  }
+
+  private setStatus(status: GameStatus) {
+    if (this.state.status === status) return;
+    this.state.status = status;
+    this.emit({ type: 'status', status });
+  }
+
+  /** Credits points to `player` and, if they defend, to the shared score. Undefined credits only the shared score. */
+  private addScore(points: number, player?: number) {
+    const s = this.state;
+    if (player === undefined || isDefender(s.players, player)) s.score += points;
+    if (player !== undefined) {
+      s.playerScores = [...s.playerScores];
+      s.playerScores[player] += points;
+    }
+    this.emitScore();
+  }
+
+  private emitScore() {
+    this.emit({ type: 'score', score: this.state.score, playerScores: this.state.playerScores });
+  }
+
+  /**
+   * Starts a new game on `layout`, which must fit this playfield (see
+   * `resolveLayout`). `blastScale` above 1 is the "bigger blasts" assist.
+   */
+  startGame(seed: number = randomSeed(), options: GameOptions = DEFAULT_GAME_OPTIONS, blastScale = 1, layout?: Layout) {
+    const s = this.state;
+    s.layout = layout ?? classicLayout(s.width, s.height);
+    s.mode = options.mode;
+    s.difficulty = options.difficulty;
+    s.players = options.players;
+    s.blastScale = blastScale;
+    s.rng = createRng(seed);
+    s.tick = 0;
+    this.accumulator = 0;
+    s.score = 0;
+    s.playerScores = new Array(playerCount(s.players)).fill(0);
+    s.round = 1;
+    s.cities = new Array(s.layout.cities.length).fill(true);
+    s.batteries = new Array(s.layout.batteries.length).fill(true);
+    s.upgrades = createUpgrades();
+    s.roundBonus = 0;
+    s.totals = createRoundStats();
+    this.emit({ type: 'gameStarted', seed: s.rng.seed });
+    this.emitScore();
+    this.initRound();
+    this.setStatus(GameStatus.PLAYING);
+  }
+
+  /** Freezes a running round. Nothing advances until `resume`. */
+  pause(): boolean {
+    if (this.state.status !== GameStatus.PLAYING) return false;
+    this.setStatus(GameStatus.PAUSED);
+    return true;
+  }
+
+  resume(): boolean {
+    if (this.state.status !== GameStatus.PAUSED) return false;
+    // Drop wall-clock time that piled up while paused
+    this.accumulator = 0;
+    this.setStatus(GameStatus.PLAYING);
+    return true;
+  }
+
+  /** Abandons the current game and returns to the title screen. */
+  quit() {
+    const s = this.state;
+    s.enemies = [];
+    s.interceptors = [];
+    s.explosions = [];
+    s.popups = [];
+    s.powerUps = [];
+    this.accumulator = 0;
+    this.setStatus(GameStatus.START);
+  }
+
+  /**
+   * Replaces the whole game with a saved one, playfield size included.
+   * Listeners hear about everything the HUD shows, as after `startGame`.
+   */
+  restore(saved: GameState) {
+    Object.assign(this.state, saved);
+    this.accumulator = 0;
+    this.emitScore();
+    this.emit({ type: 'ammo', ammo: this.state.ammo });
+    this.emit({ type: 'upgrades', upgrades: this.state.upgrades });
+    this.emit({ type: 'status', status: this.state.status });
+  }
+
+  apply(input: GameInput): boolean {
+    switch (input.type) {
+      case 'fire':
+        return this.fire(input.x, input.y, input.battery, input.player);
+      case 'attack':
+        return this.attack(input.x);
+      case 'nextRound':
+        return this.nextRound();
+      case 'buy':
+        return this.buy(input.item);
+    }
+  }
+
+  private recordInput(input: GameInput) {
+    this.emit({ type: 'input', tick: this.state.tick, input });
+  }
+
+  nextRound(): boolean {
+    if (this.state.status !== GameStatus.ROUND_END) return false;
+    this.recordInput({ type: 'nextRound' });
+    this.state.round++;
+    this.initRound();
+    this.setStatus(GameStatus.PLAYING);
+    return true;
+  }
+
+  private initRound() {
+    const s = this.state;
+    s.enemies = [];
+    s.interceptors = [];
+    s.explosions = [];
+    s.wave = applyDifficulty(waveForRound(this.campaign, s.round), s.difficulty);
+    s.enemiesToSpawn = s.wave.enemies;
+    s.popups = [];
+    s.powerUps = [];
+    s.shields = new Array(s.layout.cities.length).fill(0);
+    s.slowMo = 0;
+    s.chainKills = {};
+    s.roundStats = createRoundStats();
+    s.spawnTimer = s.players === 'versus' ? VERSUS_IDLE_TIMEOUT : 0;
+    s.attackCooldown = 0;
+    s.ammo = maxAmmo(s.layout.batteries.map(b => b.ammo), s.upgrades, s.difficulty);
+    s.enemySpeedScale = s.upgrades.slowNextRound ? SLOW_ENEMY_SCALE : 1;
+    s.upgrades = { ...s.upgrades, slowNextRound: false };
+    this.emit({ type: 'ammo', ammo: s.ammo });
+    this.emit({ type: 'upgrades', upgrades: s.upgrades });
+  }
+
+  /** Whether `item` can be bought right now, ignoring its price. */
+  canBuy(item: ShopItemId): boolean {
+    const s = this.state;
+    if (s.status !== GameStatus.ROUND_END) return false;
+    switch (item) {
+      case 'rebuildCity':
+        return s.cities.some(c => !c);
+      case 'rebuildBattery':
+        return s.batteries.some(b => !b);
+      case 'ammo':
+      case 'interceptorSpeed':
+      case 'blastRadius':
+        return s.upgrades[item] < MAX_UPGRADE_LEVEL;
+      case 'slowEnemies':
+        return !s.upgrades.slowNextRound;
+    }
+  }
+
+  /** Spends score on a shop item between rounds. Returns false if unavailable or unaffordable. */
+  buy(item: ShopItemId): boolean {
+    const s = this.state;
+    const cost = itemCost(item, s.upgrades);
+    if (!this.canBuy(item) || s.score < cost) return false;
+    this.recordInput({ type: 'buy', item });
+
+    switch (item) {
+      case 'rebuildCity':
+        s.cities = [...s.cities];
+        s.cities[s.cities.indexOf(false)] = true;
+        break;
+      case 'rebuildBattery':
+        s.batteries = [...s.batteries];
+        s.batteries[s.batteries.indexOf(false)] = true;
+        break;
+      case 'ammo':
+      case 'interceptorSpeed':
+      case 'blastRadius':
+        s.upgrades = { ...s.upgrades, [item]: s.upgrades[item] + 1 };
+        break;
+      case 'slowEnemies':
+        s.upgrades = { ...s.upgrades, slowNextRound: true };
+        break;
+    }
+
+    s.score -= cost;
+    this.emitScore();
+    this.emit({ type: 'purchase', item, cost });
+    this.emit({ type: 'upgrades', upgrades: s.upgrades });
+    return true;
+  }
+
+  /**
+   * Launches an interceptor at (x, y) from `battery`, or from the nearest
+   * battery that is still standing and has ammo when none is given. In
+   * multiplayer, `player` may only use their own batteries. Returns false if
+   * nothing could be fired.
+   */
+  fire(x: number, y: number, battery?: number, player = 0): boolean {
+    const s = this.state;
+    if (s.status !== GameStatus.PLAYING) return false;
+    if (player >= playerCount(s.players) || !isDefender(s.players, player)) return false;
+
+    // Don't fire if clicking too low
+    if (y > fireFloor(s, x)) return false;
+
+    const bPos = s.layout.batteries.map(b => b.x);
+    let bestBattery = -1;
+    let minDist = Infinity;
+
+    bPos.forEach((bx, i) => {
+      if (battery !== undefined && i !== battery) return;
+      if (!canUseBattery(s.players, player, i, bPos.length)) return;
+      if (s.batteries[i] && s.ammo[i] > 0) {
+        const d = Math.abs(x - bx);
+        if (d < minDist) {
+          minDist = d;
+          bestBattery = i;
+        }
+      }
+    });
+
+    if (bestBattery === -1) return false;
+    const input: GameInput = { type: 'fire', x, y };
+    if (battery !== undefined) input.battery = battery;
+    if (player !== 0) input.player = player;
+    this.recordInput(input);
+
+    const startPos = structurePoint(s, bPos[bestBattery]);
+    s.interceptors.push(this.interceptorPool.acquire().init(startPos, { x, y }, interceptorSpeed(s.upgrades), player));
+
+    s.ammo = [...s.ammo];
+    s.ammo[bestBattery]--;
+    s.roundStats.shots++;
+    s.totals.shots++;
+    this.emit({ type: 'interceptorLaunched', battery: bestBattery, target: { x, y } });
+    this.emit({ type: 'ammo', ammo: s.ammo });
+    return true;
+  }
+
+  /**
+   * Feeds wall-clock time into the accumulator and runs as many fixed ticks
+   * as it covers. Returns the number of ticks simulated.
+   */
+  advance(elapsed: number): number {
+    this.accumulator += Math.min(MAX_FRAME_TIME, Math.max(0, elapsed));
+    let ticks = 0;
+    while (this.accumulator >= FIXED_DT) {
+      this.accumulator -= FIXED_DT;
+      this.step();
+      ticks++;
+    }
+    return ticks;
+  }
+
+  /** Advances the simulation by exactly one fixed tick. */
+  step() {
+    const s = this.state;
+    if (s.status !== GameStatus.PLAYING && s.status !== GameStatus.ROUND_END) return;
+
+    const dt = FIXED_DT;
+    s.tick++;
+
+    this.rocketPool.flush();
+    this.interceptorPool.flush();
+    this.explosionPool.flush();
+
+    retain(s.interceptors, m => {
+      // A cat that flies into an obstacle goes off early
+      const flying = m.update(dt);
+      if (flying && !hitsObstacle(s.layout, m.pos)) return true;
+      this.explode(flying ? m.pos : m.target, blastRadius(s.upgrades, s.difficulty) * s.blastScale, m.owner);
+      this.interceptorPool.release(m);
+      return false;
+    });
+
+    this.collide(dt);
+    this.collectPowerUps();
+    this.pruneChains();
+
+    // Slow-motion only holds back the dogs
+    const enemyDt = s.slowMo > 0 ? dt * SLOW_MO_SCALE : dt;
+    const spawned = this.spawned;
+    spawned.length = 0;
+    retain(s.enemies, enemy => {
+      let alive = enemy.update(enemyDt);
+      if (enemy.release > 0) {
+        for (let i = 0; i < enemy.release; i++) {
+          const child = this.createChildRocket(enemy.pos);
+          if (child) {
+            child.owner = enemy.owner; // The attacker's MIRV or bomber makes the children theirs too
+            spawned.push(child);
+            this.emit({ type: 'enemyLaunched', kind: child.kind });
+          }
+        }
+        enemy.release = 0;
+      }
+      if (!alive && enemy.impacted) {
+        this.impact(enemy);
+      } else if (alive && hitsObstacle(s.layout, enemy.pos)) {
+        alive = false;
+        this.explode(enemy.pos);
+      }
+      if (!alive) this.recycle(enemy);
+      return alive;
+    });
+    for (let i = 0; i < spawned.length; i++) s.enemies.push(spawned[i]);
+
+    retain(s.popups, p => p.update(dt));
+    retain(s.powerUps, p => p.update(dt) && p.pos.y < groundY(s, p.pos.x) && !hitsObstacle(s.layout, p.pos));
+
+    if (s.status === GameStatus.PLAYING) {
+      s.attackCooldown = Math.max(0, s.attackCooldown - dt);
+      s.slowMo = Math.max(0, s.slowMo - dt);
+      for (let i = 0; i < s.shields.length; i++) {
+        if (s.shields[i] > 0) s.shields[i] = Math.max(0, s.shields[i] - dt);
+      }
+      this.spawn(dt);
+
+      // Win/Loss Condition Checks
+      if (hasScoreCap(s.mode) && s.score >= WIN_SCORE) {
+        this.setStatus(GameStatus.WIN);
+      } else if (s.batteries.every(b => !b)) {
+        this.setStatus(GameStatus.GAME_OVER);
+      } else if (s.enemiesToSpawn === 0 && s.enemies.length === 0) {
+        // Pay out the ammo bonus now so it can be spent in the shop
+        s.roundBonus = ammoBonus(s.ammo);
+        this.addScore(s.roundBonus);
+        this.setStatus(GameStatus.ROUND_END);
+      }
+    }
+  }
+
+  /**
+   * Grows and fades every explosion and destroys the enemies inside it.
+   * Enemies only move later in the tick, so one grid built up front answers
+   * every explosion's query. Candidates are checked in array order, exactly
+   * as a loop over all enemies would, so kills, chains and ids come out the
+   * same and old replays still play back.
+   */
+  private collide(dt: number) {
+    const s = this.state;
+    const { grid, candidates, destroyed, secondaries } = this;
+    grid.reset(s.width, s.height);
+    destroyed.length = 0;
+    for (let i = 0; i < s.enemies.length; i++) {
+      grid.insert(i, s.enemies[i].pos.x, s.enemies[i].pos.y);
+      destroyed.push(false);
+    }
+
+    secondaries.length = 0;
+    retain(s.explosions, e => {
+      const alive = e.update(dt);
+      grid.query(e.pos.x, e.pos.y, e.radius, candidates);
+      for (let c = 0; c < candidates.length; c++) {
+        const i = candidates[c];
+        if (destroyed[i]) continue;
+        const enemy = s.enemies[i];
+        const dx = enemy.pos.x - e.pos.x;
+        const dy = enemy.pos.y - e.pos.y;
+        const dist = Math.sqrt(dx * dx + dy * dy);
+        if (dist < e.radius && enemy.hit(e.id)) {
+          destroyed[i] = true;
+          this.destroyEnemy(enemy, e);
+          const secondary = this.explosionPool.acquire().init(enemy.pos, s.nextId++, CHAIN_RADIUS, e.chainId);
+          secondary.owner = e.owner;
+          secondaries.push(secondary);
+          this.emit({ type: 'explosion', pos: { ...secondary.pos }, radius: secondary.maxRadius, chain: true });
+        }
+      }
+      if (!alive) this.explosionPool.release(e);
+      return alive;
+    });
+    for (let i = 0; i < secondaries.length; i++) s.explosions.push(secondaries[i]);
+
+    retain(s.enemies, (enemy, i) => {
+      if (!destroyed[i]) return true;
+      this.recycle(enemy);
+      return false;
+    });
+  }
+
+  /** Activates every power-up caught in a blast that a defender set off, chain reactions included. */
+  private collectPowerUps() {
+    const s = this.state;
+    if (s.powerUps.length === 0) return;
+    retain(s.powerUps, p => {
+      for (let i = 0; i < s.explosions.length; i++) {
+        const e = s.explosions[i];
+        if (e.owner < 0) continue;
+        const dx = p.pos.x - e.pos.x;
+        const dy = p.pos.y - e.pos.y;
+        if (dx * dx + dy * dy < e.radius * e.radius) {
+          this.activate(p.kind, p.pos);
+          return false;
+        }
+      }
+      return true;
+    });
+  }
+
+  private activate(kind: PowerUpType, pos: Point) {
+    const s = this.state;
+    switch (kind) {
+      case 'shield': {
+        // Covers the standing city nearest to where the crate was caught
+        let city = -1;
+        s.layout.cities.forEach((x, i) => {
+          if (s.cities[i] && (city === -1 || Math.abs(x - pos.x) < Math.abs(s.layout.cities[city] - pos.x))) city = i;
+        });
+        if (city !== -1) s.shields[city] = SHIELD_DURATION;
+        break;
+      }
+      case 'emp':
+        // Knocks out everything that dives; bombers fly on
+        retain(s.enemies, enemy => {
+          if (!(enemy instanceof EnemyRocket)) return true;
+          this.emit({ type: 'enemyDestroyed', kind: enemy.kind, pos: { ...enemy.pos }, points: 0, combo: 1 });
+          this.recycle(enemy);
+          return false;
+        });
+        break;
+      case 'slowMo':
+        s.slowMo = SLOW_MO_DURATION;
+        break;
+      case 'ammo': {
+        let weakest = -1;
+        s.batteries.forEach((alive, i) => {
+          if (alive && (weakest === -1 || s.ammo[i] < s.ammo[weakest])) weakest = i;
+        });
+        if (weakest === -1) break;
+        const full = maxAmmo(s.layout.batteries.map(b => b.ammo), s.upgrades, s.difficulty)[weakest];
+        s.ammo = [...s.ammo];
+        s.ammo[weakest] = Math.max(s.ammo[weakest], full);
+        this.emit({ type: 'ammo', ammo: s.ammo });
+        break;
+      }
+    }
+    this.emit({ type: 'powerUpCollected', kind, pos: { ...pos } });
+  }
+
+  /** Returns a removed enemy to its pool. Only plain rockets are pooled; the other kinds are rare. */
+  private recycle(enemy: Enemy) {
+    if (enemy.constructor === EnemyRocket) this.rocketPool.release(enemy as EnemyRocket);
+  }
+
+  /**
+   * Credits a kill to a chain reaction. Every kill after the first in the
+   * same chain raises the multiplier, up to MAX_COMBO.
+   */
+  private destroyEnemy(enemy: Enemy, explosion: Explosion) {
+    const s = this.state;
+    const chain = (s.chainKills[explosion.chainId] ?? 0) + 1;
+    s.chainKills[explosion.chainId] = chain;
+
+    const combo = Math.min(chain, MAX_COMBO);
+    const points = enemy.score * combo;
+    for (const stats of [s.roundStats, s.totals]) {
+      stats.kills++;
+      stats.bestChain = Math.max(stats.bestChain, chain);
+      if (chain === 1 && explosion.owner >= 0) stats.hits++;
+    }
+    s.popups.push(new ScorePopup(enemy.pos, points, combo, POPUP_LIFETIME));
+
+    this.addScore(points, explosion.owner >= 0 ? explosion.owner : undefined);
+    this.emit({ type: 'enemyDestroyed', kind: enemy.kind, pos: { ...enemy.pos }, points, combo });
+  }
+
+  /** Forgets chains whose explosions have all faded. */
+  private pruneChains() {
+    const s = this.state;
+    const live = new Set(s.explosions.map(e => e.chainId));
+    for (const id of Object.keys(s.chainKills)) {
+      if (!live.has(Number(id))) delete s.chainKills[Number(id)];
+    }
+  }
+
+  private explode(pos: Point, maxRadius?: number, owner = -1) {
+    const explosion = this.explosionPool.acquire().init(pos, this.state.nextId++, maxRadius);
+    explosion.owner = owner;
+    this.state.explosions.push(explosion);
+    this.emit({ type: 'explosion', pos: { ...explosion.pos }, radius: explosion.maxRadius, chain: false });
+  }
+
+  private launch(enemy: Enemy, owner: number) {
+    enemy.owner = owner;
+    this.state.enemies.push(enemy);
+    this.emit({ type: 'enemyLaunched', kind: enemy.kind });
+  }
+
+  private impact(enemy: Enemy) {
+    const s = this.state;
+    const idx = enemy.targetIndex;
+    const cityCount = s.layout.cities.length;
+    if (idx < cityCount) {
+      // A shielded city shrugs the hit off
+      if (s.cities[idx] && s.shields[idx] === 0) {
+        s.cities = [...s.cities];
+        s.cities[idx] = false;
+        this.emit({ type: 'cityDestroyed', index: idx });
+        if (s.players === 'versus' && enemy.owner >= 0) this.addScore(CITY_HIT_POINTS, enemy.owner);
+      }
+    } else {
+      const bIdx = idx - cityCount;
+      if (s.batteries[bIdx]) {
+        s.batteries = [...s.batteries];
+        s.batteries[bIdx] = false;
+        this.emit({ type: 'batteryDestroyed', index: bIdx });
+        if (s.players === 'versus' && enemy.owner >= 0) this.addScore(BATTERY_HIT_POINTS, enemy.owner);
+      }
+    }
+    this.explode(enemy.pos);
+  }
+
+  private spawn(dt: number) {
+    const s = this.state;
+    if (s.enemiesToSpawn <= 0) return;
+
+    s.spawnTimer -= dt;
+    if (s.spawnTimer > 0) return;
+
+    // The versus fallback only covers for an idle attacker, one dog at a time
+    if (s.players === 'versus') {
+      if (this.spawnEnemy()) this.dropPowerUp();
+      s.spawnTimer = VERSUS_IDLE_TIMEOUT;
+      return;
+    }
+
+    const { burst, spawnInterval } = s.wave;
+    const count = burst && nextFloat(s.rng) < burst.chance
+      ? nextIntRange(s.rng, burst.size.min, burst.size.max)
+      : 1;
+
+    for (let i = 0; i < count && s.enemiesToSpawn > 0; i++) {
+      if (!this.spawnEnemy()) return;
+    }
+    this.dropPowerUp();
+    s.spawnTimer = nextRange(s.rng, spawnInterval.min, spawnInterval.max);
+  }
+
+  /** Rolls the wave's chance that a launch also drops a power-up. */
+  private dropPowerUp() {
+    const s = this.state;
+    const drops = s.wave.powerUps;
+    if (!drops || nextFloat(s.rng) >= drops.chance) return;
+    const kinds = Object.keys(drops.types) as PowerUpType[];
+    const kind = pickWeighted(s.rng, kinds, kinds.map(k => drops.types[k] ?? 0));
+    s.powerUps.push(new PowerUp({ x: s.width * nextRange(s.rng, 0.1, 0.9), y: 0 }, kind, POWER_UP_SPEED));
+  }
+
+  /**
+   * Versus only: the attacking player sends the next dog of the wave at the
+   * standing city or battery nearest to `x`. Limited to one launch per
+   * minimum spawn interval; the wave's enemy count still applies.
+   */
+  attack(x: number): boolean {
+    const s = this.state;
+    if (s.status !== GameStatus.PLAYING || s.players !== 'versus') return false;
+    if (s.enemiesToSpawn <= 0 || s.attackCooldown > 0) return false;
+    const target = attackTarget(s, x);
+    if (target === -1) return false;
+    this.recordInput({ type: 'attack', x });
+
+    this.spawnEnemy(target, 1);
+    this.dropPowerUp();
+    s.attackCooldown = s.wave.spawnInterval.min;
+    s.spawnTimer = VERSUS_IDLE_TIMEOUT;
+    return true;
+  }
+
+  /** Picks a standing city or battery by the wave's target weights, or -1 if none is left. */
+  private pickTarget(): number {
+    const s = this.state;
+    const wave = s.wave;
+    const targets: number[] = [];
+    const weights: number[] = [];
+    s.cities.forEach((alive, i) => {
+      if (alive && wave.targets.city > 0) {
+        targets.push(i);
+        weights.push(wave.targets.city);
+      }
+    });
+    s.batteries.forEach((alive, i) => {
+      if (alive && wave.targets.battery > 0) {
+        targets.push(i + s.cities.length);
+        weights.push(wave.targets.battery);
+      }
+    });
+    return targets.length > 0 ? pickWeighted(s.rng, targets, weights) : -1;
+  }
+
+  private targetPoint(targetIdx: number): Point {
+    return structurePoint(this.state, targetX(this.state, targetIdx));
+  }
+
+  /** A plain rocket released mid-air by a MIRV split or a bomber drop. */
+  private createChildRocket(from: Point): EnemyRocket | null {
+    const s = this.state;
+    const targetIdx = this.pickTarget();
+    if (targetIdx === -1) return null;
+    const speed = nextRange(s.rng, s.wave.speed.min, s.wave.speed.max) * s.enemySpeedScale;
+    return this.rocketPool.acquire().init(from, this.targetPoint(targetIdx), targetIdx, speed);
+  }
+
+  /**
+   * Launches one enemy of a weighted random type at `target`, or at a
+   * weighted random one, on behalf of player `owner` (-1 for the spawner).
+   * Returns false if nothing is left to hit.
+   */
+  private spawnEnemy(target?: number, owner = -1): boolean {
+    const s = this.state;
+    const wave = s.wave;
+
+    const types = Object.keys(wave.types) as EnemyType[];
+    const type = pickWeighted(s.rng, types, types.map(t => wave.types[t] ?? 0));
+    const speed = nextRange(s.rng, wave.speed.min, wave.speed.max) * s.enemySpeedScale;
+
+    if (type === 'bomber') {
+      // Bombers fly across instead of diving, so they need no target
+      const fromLeft = nextFloat(s.rng) < 0.5;
+      const start = { x: fromLeft ? -20 : s.width + 20, y: s.height * nextRange(s.rng, 0.1, 0.25) };
+      this.launch(new Bomber(start, fromLeft ? speed : -speed, s.width), owner);
+      s.enemiesToSpawn--;
+      return true;
+    }
+
+    const targetIdx = target ?? this.pickTarget();
+    if (targetIdx === -1) return false;
+
+    const start = { x: nextFloat(s.rng) * s.width, y: 0 };
+    const end = this.targetPoint(targetIdx);
+
+    switch (type) {
+      case 'rocket':
+        this.launch(this.rocketPool.acquire().init(start, end, targetIdx, speed), owner);
+        break;
+      case 'zigzag':
+        this.launch(new ZigZagRocket(start, end, targetIdx, speed), owner);
+        break;
+      case 'armored':
+        this.launch(new ArmoredRocket(start, end, targetIdx, speed), owner);
+        break;
+      case 'mirv':
+        this.launch(new MirvRocket(start, end, targetIdx, speed, s.height * nextRange(s.rng, 0.3, 0.5)), owner);
+        break;
+    }
+    s.enemiesToSpawn--;
+    return true;
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Uniform grid broad-phase over points. Items are stored by index (into
+ * whatever array the caller keeps them in), and queries return candidate
+ * indices in ascending order so narrow-phase checks run in the same order
+ * as a plain loop over the array would. Buckets are reused across
+ * rebuilds, so a steady-state tick allocates nothing.
+ */
+export class SpatialGrid {
+  readonly cellSize: number;
+  private cols = 0;
+  private rows = 0;
+  private cells: number[][] = [];
+
+  constructor(cellSize = 64) {
+    this.cellSize = cellSize;
+  }
+
+  /** Empties the grid and sizes it to cover a `width` x `height` field. */
+  reset(width: number, height: number) {
+    this.cols = Math.max(1, Math.ceil(width / this.cellSize));
+    this.rows = Math.max(1, Math.ceil(height / this.cellSize));
+    const count = this.cols * this.rows;
+    while (this.cells.length < count) this.cells.push([]);
+    for (let i = 0; i < count; i++) this.cells[i].length = 0;
+  }
+
+  /** Points outside the field are kept in the nearest edge cell. */
+  insert(index: number, x: number, y: number) {
+    this.cells[this.row(y) * this.cols + this.col(x)].push(index);
+  }
+
+  /** Fills `out` with every index whose cell touches the circle's bounding box. */
+  query(x: number, y: number, radius: number, out: number[]): number[] {
+    out.length = 0;
+    if (!(radius > 0)) return out;
+    const c0 = this.col(x - radius);
+    const c1 = this.col(x + radius);
+    const r0 = this.row(y - radius);
+    const r1 = this.row(y + radius);
+    for (let r = r0; r <= r1; r++) {
+      for (let c = c0; c <= c1; c++) {
+        const cell = this.cells[r * this.cols + c];
+        for (let i = 0; i < cell.length; i++) out.push(cell[i]);
+      }
+    }
+    // Each cell is already ascending; only a multi-cell query needs sorting
+    if (c0 !== c1 || r0 !== r1) out.sort(ascending);
+    return out;
+  }
+
+  private col(x: number): number {
+    return Math.min(this.cols - 1, Math.max(0, Math.floor(x / this.cellSize)));
+  }
+
+  private row(y: number): number {
+    return Math.min(this.rows - 1, Math.max(0, Math.floor(y / this.cellSize)));
+  }
+}
+
+function ascending(a: number, b: number): number {
+  return a - b;
+}
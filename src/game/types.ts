@@ -0,0 +1,57 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { ShopItemId, Upgrades } from './upgrades';
+
+export type Point = { x: number; y: number };
+
+export interface Entity {
+  update(dt: number): boolean; // returns false if entity should be removed
+}
+
+export const ENEMY_TYPES = ['rocket', 'zigzag', 'armored', 'mirv', 'bomber'] as const;
+export type EnemyType = typeof ENEMY_TYPES[number];
+
+export const POWER_UP_TYPES = ['shield', 'emp', 'slowMo', 'ammo'] as const;
+export type PowerUpType = typeof POWER_UP_TYPES[number];
+
+export enum GameStatus {
+  START = 'START',
+  PLAYING = 'PLAYING',
+  PAUSED = 'PAUSED',
+  ROUND_END = 'ROUND_END',
+  GAME_OVER = 'GAME_OVER',
+  WIN = 'WIN'
+}
+
+/** A player command. Everything that can change the outcome of a game goes through one of these. */
+export type GameInput =
+  | { type: 'fire'; x: number; y: number; battery?: number; player?: number }
+  | { type: 'attack'; x: number }
+  | { type: 'nextRound' }
+  | { type: 'buy'; item: ShopItemId };
+
+/** Statuses where a round is on screen, running or not. */
+export function isInRound(status: GameStatus): boolean {
+  return status === GameStatus.PLAYING || status === GameStatus.PAUSED || status === GameStatus.ROUND_END;
+}
+
+export type GameEvent =
+  | { type: 'gameStarted'; seed: number }
+  | { type: 'input'; tick: number; input: GameInput }
+  | { type: 'status'; status: GameStatus }
+  | { type: 'score'; score: number; playerScores: number[] }
+  | { type: 'ammo'; ammo: number[] }
+  | { type: 'upgrades'; upgrades: Upgrades }
+  | { type: 'purchase'; item: ShopItemId; cost: number }
+  | { type: 'interceptorLaunched'; battery: number; target: Point }
+  | { type: 'enemyLaunched'; kind: EnemyType }
+  | { type: 'explosion'; pos: Point; radius: number; chain: boolean }
+  | { type: 'enemyDestroyed'; kind: EnemyType; pos: Point; points: number; combo: number }
+  | { type: 'powerUpCollected'; kind: PowerUpType; pos: Point }
+  | { type: 'cityDestroyed'; index: number }
+  | { type: 'batteryDestroyed'; index: number };
+
+export type GameListener = (event: GameEvent) => void;
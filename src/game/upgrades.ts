@@ -0,0 +1,74 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { DIFFICULTY_PRESETS, type Difficulty } from './difficulty';
+
+/** Permanent upgrades bought between rounds; they last for the rest of the game. */
+export interface Upgrades {
+  ammo: number; // Extra max ammo levels per battery
+  interceptorSpeed: number;
+  blastRadius: number;
+  slowNextRound: boolean; // One-shot: consumed when the next round starts
+}
+
+export const SHOP_ITEM_IDS = ['rebuildCity', 'rebuildBattery', 'ammo', 'interceptorSpeed', 'blastRadius', 'slowEnemies'] as const;
+export type ShopItemId = typeof SHOP_ITEM_IDS[number];
+
+export const MAX_UPGRADE_LEVEL = 5;
+
+const AMMO_PER_LEVEL = 0.2; // Share of a battery's base magazine each ammo level adds
+const INTERCEPTOR_SPEED = 400;
+const SPEED_PER_LEVEL = 60;
+const BLAST_RADIUS = 45;
+const RADIUS_PER_LEVEL = 8;
+export const SLOW_ENEMY_SCALE = 0.6;
+
+export function createUpgrades(): Upgrades {
+  return { ammo: 0, interceptorSpeed: 0, blastRadius: 0, slowNextRound: false };
+}
+
+/** Full magazines for batteries with the given base ammo. */
+export function maxAmmo(base: readonly number[], upgrades: Upgrades, difficulty: Difficulty = 'normal'): number[] {
+  const scale = DIFFICULTY_PRESETS[difficulty].ammo;
+  return base.map(a => Math.round(a * scale) + Math.round(a * AMMO_PER_LEVEL) * upgrades.ammo);
+}
+
+export function interceptorSpeed(upgrades: Upgrades): number {
+  return INTERCEPTOR_SPEED + SPEED_PER_LEVEL * upgrades.interceptorSpeed;
+}
+
+export function blastRadius(upgrades: Upgrades, difficulty: Difficulty = 'normal'): number {
+  return (BLAST_RADIUS + RADIUS_PER_LEVEL * upgrades.blastRadius) * DIFFICULTY_PRESETS[difficulty].blastRadius;
+}
+
+/** Price of the next purchase of `item`, given what has already been bought. */
+export function itemCost(item: ShopItemId, upgrades: Upgrades): number {
+  switch (item) {
+    case 'rebuildCity':
+      return 150;
+    case 'rebuildBattery':
+      return 200;
+    case 'ammo':
+      return 100 * (upgrades.ammo + 1);
+    case 'interceptorSpeed':
+      return 80 * (upgrades.interceptorSpeed + 1);
+    case 'blastRadius':
+      return 120 * (upgrades.blastRadius + 1);
+    case 'slowEnemies':
+      return 100;
+  }
+}
+
+/** Current level of a levelled upgrade, or null for one-off purchases. */
+export function itemLevel(item: ShopItemId, upgrades: Upgrades): number | null {
+  switch (item) {
+    case 'ammo':
+    case 'interceptorSpeed':
+    case 'blastRadius':
+      return upgrades[item];
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,200 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import defaultCampaignData from '../data/waves.json';
+import { ENEMY_TYPES, POWER_UP_TYPES, type EnemyType, type PowerUpType } from './types';
+
+export interface Range {
+  min: number;
+  max: number;
+}
+
+export interface WaveDefinition {
+  enemies: number; // Total enemies launched this round
+  types: Partial<Record<EnemyType, number>>; // Relative spawn weight per enemy type
+  speed: Range; // Nominal launch speed in px/s
+  spawnInterval: Range; // Seconds between launches
+  burst?: {
+    chance: number; // Probability in [0, 1] that a launch is a burst
+    size: Range; // Enemies per burst, inclusive
+  };
+  powerUps?: {
+    chance: number; // Probability in [0, 1] that a launch also drops a power-up
+    types: Partial<Record<PowerUpType, number>>; // Relative drop weight per power-up
+  };
+  targets: {
+    city: number; // Relative weight of each standing city
+    battery: number; // Relative weight of each standing battery
+  };
+}
+
+/** Applied per round past the last defined wave, so campaigns never run out. */
+export interface Escalation {
+  enemies: number;
+  speed: number;
+  spawnInterval: number;
+  minSpawnInterval: number;
+}
+
+export interface Campaign {
+  name: string;
+  waves: WaveDefinition[];
+  escalation?: Escalation;
+}
+
+export class WaveSchemaError extends Error {
+  readonly path: string;
+
+  constructor(path: string, message: string) {
+    super(`${path}: ${message}`);
+    this.name = 'WaveSchemaError';
+    this.path = path;
+  }
+}
+
+// --- Validation ---
+
+function describe(value: unknown): string {
+  return value === undefined ? 'nothing' : JSON.stringify(value);
+}
+
+function expectObject(value: unknown, path: string): Record<string, unknown> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new WaveSchemaError(path, `expected an object, got ${describe(value)}`);
+  }
+  return value as Record<string, unknown>;
+}
+
+function expectNumber(value: unknown, path: string, opts: { min?: number; max?: number; integer?: boolean } = {}): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new WaveSchemaError(path, `expected a number, got ${describe(value)}`);
+  }
+  if (opts.integer && !Number.isInteger(value)) {
+    throw new WaveSchemaError(path, `expected a whole number, got ${value}`);
+  }
+  if (opts.min !== undefined && value < opts.min) {
+    throw new WaveSchemaError(path, `must be at least ${opts.min}, got ${value}`);
+  }
+  if (opts.max !== undefined && value > opts.max) {
+    throw new WaveSchemaError(path, `must be at most ${opts.max}, got ${value}`);
+  }
+  return value;
+}
+
+function expectRange(value: unknown, path: string, opts: { min?: number; integer?: boolean } = {}): Range {
+  const obj = expectObject(value, path);
+  const min = expectNumber(obj.min, `${path}.min`, opts);
+  const max = expectNumber(obj.max, `${path}.max`, opts);
+  if (max < min) {
+    throw new WaveSchemaError(path, `max (${max}) is smaller than min (${min})`);
+  }
+  return { min, max };
+}
+
+/** Relative weights keyed by one of `keys`, at least one of them above 0. */
+function parseWeights<K extends string>(value: unknown, path: string, keys: readonly K[], what: string): Partial<Record<K, number>> {
+  const obj = expectObject(value, path);
+  const weights: Partial<Record<K, number>> = {};
+  let total = 0;
+  for (const [key, weight] of Object.entries(obj)) {
+    if (!(keys as readonly string[]).includes(key)) {
+      throw new WaveSchemaError(`${path}.${key}`, `unknown ${what}, expected one of ${keys.join(', ')}`);
+    }
+    total += weights[key as K] = expectNumber(weight, `${path}.${key}`, { min: 0 });
+  }
+  if (total <= 0) {
+    throw new WaveSchemaError(path, `needs at least one ${what} with a weight above 0`);
+  }
+  return weights;
+}
+
+function parseWave(value: unknown, path: string): WaveDefinition {
+  const obj = expectObject(value, path);
+  const wave: WaveDefinition = {
+    enemies: expectNumber(obj.enemies, `${path}.enemies`, { min: 1, integer: true }),
+    types: parseWeights(obj.types, `${path}.types`, ENEMY_TYPES, 'enemy type'),
+    speed: expectRange(obj.speed, `${path}.speed`, { min: 1 }),
+    spawnInterval: expectRange(obj.spawnInterval, `${path}.spawnInterval`, { min: 0 }),
+    targets: (() => {
+      const targets = expectObject(obj.targets, `${path}.targets`);
+      const city = expectNumber(targets.city, `${path}.targets.city`, { min: 0 });
+      const battery = expectNumber(targets.battery, `${path}.targets.battery`, { min: 0 });
+      if (city + battery <= 0) {
+        throw new WaveSchemaError(`${path}.targets`, 'city and battery weights cannot both be 0');
+      }
+      return { city, battery };
+    })()
+  };
+  if (obj.burst !== undefined) {
+    const burst = expectObject(obj.burst, `${path}.burst`);
+    wave.burst = {
+      chance: expectNumber(burst.chance, `${path}.burst.chance`, { min: 0, max: 1 }),
+      size: expectRange(burst.size, `${path}.burst.size`, { min: 1, integer: true })
+    };
+  }
+  if (obj.powerUps !== undefined) {
+    const powerUps = expectObject(obj.powerUps, `${path}.powerUps`);
+    wave.powerUps = {
+      chance: expectNumber(powerUps.chance, `${path}.powerUps.chance`, { min: 0, max: 1 }),
+      types: parseWeights(powerUps.types, `${path}.powerUps.types`, POWER_UP_TYPES, 'power-up')
+    };
+  }
+  return wave;
+}
+
+/** Validates raw JSON against the wave schema. Throws `WaveSchemaError` naming the bad field. */
+export function parseCampaign(data: unknown): Campaign {
+  const obj = expectObject(data, 'campaign');
+  const name = typeof obj.name === 'string' ? obj.name : 'Untitled';
+  if (!Array.isArray(obj.waves) || obj.waves.length === 0) {
+    throw new WaveSchemaError('campaign.waves', 'expected a non-empty array of waves');
+  }
+  const campaign: Campaign = {
+    name,
+    waves: obj.waves.map((wave, i) => parseWave(wave, `campaign.waves[${i}]`))
+  };
+  if (obj.escalation !== undefined) {
+    const esc = expectObject(obj.escalation, 'campaign.escalation');
+    campaign.escalation = {
+      enemies: expectNumber(esc.enemies, 'campaign.escalation.enemies', { integer: true }),
+      speed: expectNumber(esc.speed, 'campaign.escalation.speed'),
+      spawnInterval: expectNumber(esc.spawnInterval, 'campaign.escalation.spawnInterval'),
+      minSpawnInterval: expectNumber(esc.minSpawnInterval, 'campaign.escalation.minSpawnInterval', { min: 0 })
+    };
+  }
+  return campaign;
+}
+
+export const DEFAULT_CAMPAIGN = parseCampaign(defaultCampaignData);
+
+// --- Lookup ---
+
+/**
+ * Returns the wave for a 1-based round. Rounds past the end of the campaign
+ * repeat the last wave with the escalation applied once per extra round.
+ */
+export function waveForRound(campaign: Campaign, round: number): WaveDefinition {
+  const index = Math.max(0, round - 1);
+  const last = campaign.waves[campaign.waves.length - 1];
+  if (index < campaign.waves.length) return campaign.waves[index];
+
+  const esc = campaign.escalation;
+  if (!esc) return last;
+
+  const n = index - (campaign.waves.length - 1);
+  const intervalShift = Math.max(esc.spawnInterval * n, esc.minSpawnInterval - last.spawnInterval.min);
+  return {
+    ...last,
+    enemies: Math.max(1, last.enemies + esc.enemies * n),
+    speed: {
+      min: Math.max(1, last.speed.min + esc.speed * n),
+      max: Math.max(1, last.speed.max + esc.speed * n)
+    },
+    spawnInterval: {
+      min: last.spawnInterval.min + intervalShift,
+      max: last.spawnInterval.max + intervalShift
+    }
+  };
+}
@@ -0,0 +1,133 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import en from './locales/en.json';
+
+// --- Messages ---
+
+/**
+ * English ships with the app. It is the reference every other locale is
+ * checked against and the fallback for any key a locale is missing.
+ */
+export type Translation = typeof en;
+export const DEFAULT_TRANSLATION: Translation = en;
+
+/** A message that depends on a count. Keys are `Intl.PluralRules` categories; `other` is required. */
+export interface PluralMessage {
+  zero?: string;
+  one?: string;
+  two?: string;
+  few?: string;
+  many?: string;
+  other: string;
+}
+
+export type MessageParams = Record<string, string | number>;
+
+/** Fills `{name}` placeholders from `params`. Unknown placeholders are left as they are. */
+export function format(message: string, params: MessageParams = {}): string {
+  return message.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+}
+
+/** Picks the form for `count` under the translation's plural rules, then formats it with `{count}` and `params`. */
+export function plural(t: Translation, message: PluralMessage, count: number, params: MessageParams = {}): string {
+  const category = new Intl.PluralRules(t.locale).select(count) as keyof PluralMessage;
+  return format(message[category] ?? message.other, { count, ...params });
+}
+
+// --- Locale Registry ---
+
+type Bundle = Record<string, unknown>;
+
+export interface LocaleInfo {
+  code: string;
+  name: string; // Native name, shown before the bundle is loaded
+  load: () => Promise<Bundle>;
+}
+
+/** Every language the game offers. Bundles other than English load on first use. */
+export const LOCALES = [
+  { code: 'en', name: 'English', load: async () => en },
+  { code: 'zh', name: '中文', load: () => import('./locales/zh.json').then(m => m.default) },
+  { code: 'ja', name: '日本語', load: () => import('./locales/ja.json').then(m => m.default) },
+  { code: 'es', name: 'Español', load: () => import('./locales/es.json').then(m => m.default) }
+] as const satisfies readonly LocaleInfo[];
+
+export type Lang = typeof LOCALES[number]['code'];
+export const DEFAULT_LANG: Lang = 'en';
+
+export function isLang(value: unknown): value is Lang {
+  return LOCALES.some(l => l.code === value);
+}
+
+export function localeInfo(lang: Lang): LocaleInfo {
+  return LOCALES.find(l => l.code === lang) ?? LOCALES[0];
+}
+
+/** The language after `lang` in the registry, wrapping around. */
+export function nextLang(lang: Lang): Lang {
+  const index = LOCALES.findIndex(l => l.code === lang);
+  return LOCALES[(index + 1) % LOCALES.length].code;
+}
+
+function browserLanguages(): readonly string[] {
+  if (typeof navigator === 'undefined') return [];
+  return navigator.languages?.length ? navigator.languages : [navigator.language];
+}
+
+/**
+ * Best registered match for the browser's preferred languages, in order:
+ * the exact tag first, then its primary subtag ("es-MX" matches "es").
+ */
+export function detectLang(preferred: readonly string[] = browserLanguages()): Lang {
+  for (const tag of preferred) {
+    const lower = tag.toLowerCase();
+    const exact = LOCALES.find(l => l.code === lower);
+    if (exact) return exact.code;
+    const primary = LOCALES.find(l => l.code === lower.split('-')[0]);
+    if (primary) return primary.code;
+  }
+  return DEFAULT_LANG;
+}
+
+function isPluralMessage(value: unknown): value is PluralMessage {
+  if (typeof value !== 'object' || value === null) return false;
+  return Object.values(value).every(v => typeof v === 'string') && typeof (value as PluralMessage).other === 'string';
+}
+
+function sameShape(value: unknown, reference: unknown): boolean {
+  return typeof reference === 'string' ? typeof value === 'string' : isPluralMessage(value);
+}
+
+/** Keys of the English reference that `bundle` lacks or has in the wrong shape. */
+export function missingKeys(bundle: Bundle): string[] {
+  return Object.entries(en)
+    .filter(([key, reference]) => !sameShape(bundle[key], reference))
+    .map(([key]) => key);
+}
+
+/** Lays `bundle` over English, so anything missing or malformed falls back key by key. */
+export function mergeBundle(bundle: Bundle): Translation {
+  const merged: Bundle = { ...en };
+  for (const [key, reference] of Object.entries(en)) {
+    if (sameShape(bundle[key], reference)) merged[key] = bundle[key];
+  }
+  return merged as Translation;
+}
+
+const loaded = new Map<Lang, Promise<Translation>>();
+
+/** Loads and merges a locale once. A bundle that fails to load yields English and is retried next time. */
+export function loadTranslation(lang: Lang): Promise<Translation> {
+  let pending = loaded.get(lang);
+  if (!pending) {
+    pending = localeInfo(lang).load().then(mergeBundle, () => {
+      loaded.delete(lang);
+      return DEFAULT_TRANSLATION;
+    });
+    loaded.set(lang, pending);
+  }
+  return pending;
+}
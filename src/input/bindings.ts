@@ -0,0 +1,142 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export const CONTROL_ACTIONS = ['up', 'down', 'left', 'right', 'fire', 'fireLeft', 'fireCenter', 'fireRight', 'pause'] as const;
+export type ControlAction = typeof CONTROL_ACTIONS[number];
+
+export type BatterySlot = 'left' | 'center' | 'right';
+
+/** Battery each fire action is locked to; `fire` picks the nearest one like the mouse does. */
+export const FIRE_ACTIONS: Partial<Record<ControlAction, BatterySlot | undefined>> = {
+  fire: undefined,
+  fireLeft: 'left',
+  fireCenter: 'center',
+  fireRight: 'right'
+};
+
+/** Index of the battery in `slot` among `count` batteries ordered left to right. */
+export function slotBattery(slot: BatterySlot, count: number): number {
+  switch (slot) {
+    case 'left':
+      return 0;
+    case 'center':
+      return Math.floor((count - 1) / 2);
+    case 'right':
+      return count - 1;
+  }
+}
+
+export interface Bindings {
+  keys: Record<ControlAction, string[]>; // KeyboardEvent.code values
+  buttons: Record<ControlAction, number[]>; // Standard gamepad button indices
+}
+
+const STORAGE_KEY = 'sun-light.controls';
+const STORAGE_VERSION = 1;
+
+export const DEFAULT_BINDINGS: Bindings = {
+  keys: {
+    up: ['ArrowUp', 'KeyW'],
+    down: ['ArrowDown', 'KeyS'],
+    left: ['ArrowLeft', 'KeyA'],
+    right: ['ArrowRight', 'KeyD'],
+    fire: ['Space', 'Enter'],
+    fireLeft: ['KeyJ'],
+    fireCenter: ['KeyK'],
+    fireRight: ['KeyL'],
+    pause: ['Escape', 'KeyP']
+  },
+  buttons: {
+    up: [12],
+    down: [13],
+    left: [14],
+    right: [15],
+    fire: [0, 7], // A, right trigger
+    fireLeft: [2], // X
+    fireCenter: [3], // Y
+    fireRight: [1], // B
+    pause: [9] // Start
+  }
+};
+
+export function cloneBindings(bindings: Bindings): Bindings {
+  const keys = {} as Bindings['keys'];
+  const buttons = {} as Bindings['buttons'];
+  CONTROL_ACTIONS.forEach(action => {
+    keys[action] = [...bindings.keys[action]];
+    buttons[action] = [...bindings.buttons[action]];
+  });
+  return { keys, buttons };
+}
+
+function reassign<T>(map: Record<ControlAction, T[]>, action: ControlAction, input: T) {
+  CONTROL_ACTIONS.forEach(a => {
+    map[a] = map[a].filter(i => i !== input);
+  });
+  map[action] = [input];
+}
+
+/**
+ * Makes `code` the only key for `action`, removing it from any other action
+ * so one press never triggers two things.
+ */
+export function rebindKey(bindings: Bindings, action: ControlAction, code: string): Bindings {
+  const next = cloneBindings(bindings);
+  reassign(next.keys, action, code);
+  return next;
+}
+
+/** Gamepad counterpart of `rebindKey`. */
+export function rebindButton(bindings: Bindings, action: ControlAction, button: number): Bindings {
+  const next = cloneBindings(bindings);
+  reassign(next.buttons, action, button);
+  return next;
+}
+
+/** Reads saved bindings, falling back to the defaults for anything missing or malformed. */
+export function loadBindings(): Bindings {
+  const bindings = cloneBindings(DEFAULT_BINDINGS);
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return bindings;
+    const data = JSON.parse(raw);
+    if (data?.version !== STORAGE_VERSION) return bindings;
+    CONTROL_ACTIONS.forEach(action => {
+      const keys = data.keys?.[action];
+      if (Array.isArray(keys) && keys.every((k: unknown) => typeof k === 'string')) {
+        bindings.keys[action] = keys;
+      }
+      const buttons = data.buttons?.[action];
+      if (Array.isArray(buttons) && buttons.every((b: unknown) => Number.isInteger(b))) {
+        bindings.buttons[action] = buttons;
+      }
+    });
+  } catch {
+    // Unreadable storage; play with the defaults
+  }
+  return bindings;
+}
+
+export function saveBindings(bindings: Bindings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: STORAGE_VERSION, ...bindings }));
+  } catch {
+    // Storage full or disabled; bindings just won't persist
+  }
+}
+
+/** Short human label for a KeyboardEvent.code, e.g. "KeyA" -> "A". */
+export function keyLabel(code: string): string {
+  if (code.startsWith('Key')) return code.slice(3);
+  if (code.startsWith('Digit')) return code.slice(5);
+  if (code.startsWith('Arrow')) return { ArrowUp: '↑', ArrowDown: '↓', ArrowLeft: '←', ArrowRight: '→' }[code] ?? code;
+  return code;
+}
+
+const BUTTON_LABELS = ['A', 'B', 'X', 'Y', 'LB', 'RB', 'LT', 'RT', 'Back', 'Start', 'LS', 'RS', 'D↑', 'D↓', 'D←', 'D→'];
+
+export function buttonLabel(index: number): string {
+  return BUTTON_LABELS[index] ?? `#${index}`;
+}
@@ -0,0 +1,169 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Point } from '../game/types';
+import { CONTROL_ACTIONS, FIRE_ACTIONS, type BatterySlot, type Bindings, type ControlAction } from './bindings';
+
+export interface FireCommand {
+  x: number;
+  y: number;
+  slot?: BatterySlot; // Undefined fires from the nearest battery
+}
+
+const STICK_DEADZONE = 0.2;
+const RETICLE_SPEED = 450; // px/s at full deflection
+
+// Aim assist: near a dog the crosshair slows down, and it follows the dog while the player isn't steering
+const STICKY_RADIUS = 36;
+const STICKY_FRICTION = 0.35; // Share of reticle speed kept while clinging
+const STICKY_PULL = 8; // 1/s; how quickly an idle crosshair closes in on its dog
+
+/**
+ * Turns keyboard and gamepad state into a virtual crosshair plus fire
+ * commands. The mouse bypasses this entirely and still fires where clicked.
+ */
+export class InputController {
+  bindings: Bindings;
+  reticle: Point = { x: -1, y: -1 };
+  reticleVisible = false;
+  aimAssist = false;
+  locked = false; // Aim assist is holding the crosshair on a target
+  private held = new Set<ControlAction>();
+  private queued: (BatterySlot | undefined)[] = [];
+  private pauseQueued = false;
+  private prevButtons: boolean[] = [];
+
+  constructor(bindings: Bindings) {
+    this.bindings = bindings;
+  }
+
+  private actionForKey(code: string): ControlAction | undefined {
+    return CONTROL_ACTIONS.find(action => this.bindings.keys[action].includes(code));
+  }
+
+  private trigger(action: ControlAction) {
+    if (action === 'pause') {
+      this.pauseQueued = true;
+      return;
+    }
+    if (action in FIRE_ACTIONS) {
+      this.queued.push(FIRE_ACTIONS[action]);
+    }
+    this.reticleVisible = true;
+  }
+
+  /** True once per press of the pause key or button. */
+  consumePause(): boolean {
+    const queued = this.pauseQueued;
+    this.pauseQueued = false;
+    return queued;
+  }
+
+  /** Returns true if the key is bound, so the caller can prevent scrolling etc. */
+  handleKeyDown(e: KeyboardEvent): boolean {
+    const action = this.actionForKey(e.code);
+    if (!action) return false;
+    if (!e.repeat) this.trigger(action);
+    this.held.add(action);
+    return true;
+  }
+
+  handleKeyUp(e: KeyboardEvent) {
+    const action = this.actionForKey(e.code);
+    if (action) this.held.delete(action);
+  }
+
+  /** The mouse took over; hide the crosshair until a key or pad is used again. */
+  handlePointer() {
+    this.reticleVisible = false;
+  }
+
+  reset() {
+    this.held.clear();
+    this.queued = [];
+    this.pauseQueued = false;
+  }
+
+  private pollGamepad(): { x: number; y: number; pressed: Set<ControlAction> } {
+    const pressed = new Set<ControlAction>();
+    const pads = typeof navigator !== 'undefined' && navigator.getGamepads ? navigator.getGamepads() : [];
+    const pad = Array.from(pads).find(p => p && p.connected);
+    if (!pad) return { x: 0, y: 0, pressed };
+
+    const buttons = pad.buttons.map(b => b.pressed);
+    CONTROL_ACTIONS.forEach(action => {
+      this.bindings.buttons[action].forEach(index => {
+        if (buttons[index]) {
+          pressed.add(action);
+          if (!this.prevButtons[index]) this.trigger(action);
+        }
+      });
+    });
+    this.prevButtons = buttons;
+
+    const ax = pad.axes[0] ?? 0;
+    const ay = pad.axes[1] ?? 0;
+    const x = Math.abs(ax) > STICK_DEADZONE ? ax : 0;
+    const y = Math.abs(ay) > STICK_DEADZONE ? ay : 0;
+    if (x || y) this.reticleVisible = true;
+    return { x, y, pressed };
+  }
+
+  /** The target closest to the crosshair within STICKY_RADIUS, if any. */
+  private stickyTarget(targets: readonly { pos: Point }[]): Point | null {
+    let best: Point | null = null;
+    let bestDist = STICKY_RADIUS;
+    for (const target of targets) {
+      const d = Math.hypot(target.pos.x - this.reticle.x, target.pos.y - this.reticle.y);
+      if (d < bestDist) {
+        bestDist = d;
+        best = target.pos;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Moves the crosshair for this frame and returns the fire commands queued
+   * since the last call, aimed at the crosshair. With aim assist on, the
+   * crosshair clings to the nearest of `targets`. `floorAt` gives the lowest
+   * y the crosshair may reach at a given x, so it follows uneven ground.
+   */
+  update(dt: number, width: number, height: number, floorAt: (x: number) => number, targets: readonly { pos: Point }[] = []): FireCommand[] {
+    const pad = this.pollGamepad();
+    const isHeld = (action: ControlAction) => this.held.has(action) || pad.pressed.has(action);
+
+    if (this.reticle.x < 0) {
+      this.reticle = { x: width / 2, y: height / 2 };
+    }
+
+    let mx = pad.x;
+    let my = pad.y;
+    if (isHeld('left')) mx -= 1;
+    if (isHeld('right')) mx += 1;
+    if (isHeld('up')) my -= 1;
+    if (isHeld('down')) my += 1;
+    mx = Math.max(-1, Math.min(1, mx));
+    my = Math.max(-1, Math.min(1, my));
+
+    const sticky = this.aimAssist && this.reticleVisible ? this.stickyTarget(targets) : null;
+    this.locked = sticky !== null;
+    const step = RETICLE_SPEED * dt * (sticky ? STICKY_FRICTION : 1);
+    let dx = mx * step;
+    let dy = my * step;
+    if (sticky && !mx && !my) {
+      const pull = Math.min(1, STICKY_PULL * dt);
+      dx = (sticky.x - this.reticle.x) * pull;
+      dy = (sticky.y - this.reticle.y) * pull;
+    }
+
+    this.reticle.x = Math.max(0, Math.min(width, this.reticle.x + dx));
+    this.reticle.y = Math.max(0, Math.min(floorAt(this.reticle.x), this.reticle.y + dy));
+
+    const fires = this.queued.map(slot => ({ x: this.reticle.x, y: this.reticle.y, slot }));
+    this.queued = [];
+    return fires;
+  }
+}
@@ -0,0 +1,251 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Bomber } from '../game/entities';
+import { groundY, type GameState, type Simulation } from '../game/simulation';
+import { GameStatus, type GameEvent, type Point } from '../game/types';
+import { DEFAULT_EFFECTS_SETTINGS, type EffectsSettings } from './effectsSettings';
+import type { Palette, PaletteKey } from './palette';
+
+const MAX_PARTICLES = 1500;
+const TRAIL_INTERVAL = 1 / 20; // Seconds between smoke puffs behind each rocket
+const MAX_SHAKE = 12; // Playfield px at full trauma and full intensity
+const TRAUMA_DECAY = 1.5; // Trauma lost per second
+const FLASH_DECAY = 3; // Flash alpha lost per second
+
+interface Particle {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  age: number;
+  life: number;
+  size: number;
+  grow: number; // Size change per second
+  gravity: number;
+  drag: number; // Share of velocity lost per second
+  floor: number; // Bounces here; Infinity for none
+  color: PaletteKey; // Looked up when drawn, so palette and theme changes recolor live particles
+}
+
+interface ParticleSpec {
+  speed: [number, number];
+  life: [number, number];
+  size: [number, number];
+  colors: PaletteKey[];
+  grow?: number;
+  gravity?: number;
+  drag?: number;
+  spread?: number; // Random start offset in px
+  angle?: [number, number]; // Launch direction range in radians; full circle by default
+}
+
+const DEBRIS: ParticleSpec = {
+  speed: [40, 150], life: [0.5, 1], size: [2, 4], colors: ['explosionCore', 'explosion', 'city'], gravity: 240, drag: 0.8
+};
+const SPARKS: ParticleSpec = {
+  speed: [120, 240], life: [0.15, 0.35], size: [1, 2], colors: ['explosionCore'], drag: 3
+};
+const SMOKE: ParticleSpec = {
+  speed: [4, 14], life: [0.4, 0.8], size: [2, 3], colors: ['ground', 'ruinsShade'], grow: 4, gravity: -12, drag: 1.5
+};
+const TRAIL: ParticleSpec = { ...SMOKE, speed: [0, 6] };
+const MUZZLE: ParticleSpec = { ...SMOKE, speed: [10, 30], angle: [-Math.PI * 0.75, -Math.PI * 0.25] };
+const RUBBLE: ParticleSpec = {
+  speed: [60, 190], life: [1.2, 1.8], size: [2, 5], colors: ['city', 'ruinsShade', 'ruins'], gravity: 420, drag: 0.5,
+  spread: 14, angle: [-Math.PI * 0.9, -Math.PI * 0.1]
+};
+const DUST: ParticleSpec = {
+  speed: [6, 24], life: [1, 1.8], size: [4, 7], colors: ['ruins', 'ground'], grow: 6, gravity: -18, drag: 1, spread: 16
+};
+
+function rand(min: number, max: number): number {
+  return min + Math.random() * (max - min);
+}
+
+/**
+ * Cosmetic layer on top of the renderer: debris, sparks, smoke trails and
+ * rubble, plus screen shake and a white flash when something big is hit.
+ * Everything is driven by simulation events and the state it is handed, and
+ * nothing flows back, so it never touches the game's outcome or its RNG.
+ */
+export class EffectsLayer {
+  settings: EffectsSettings = DEFAULT_EFFECTS_SETTINGS;
+  /** Turns off shake, flash and trails, and halves particle counts. */
+  reducedMotion = false;
+  private particles: Particle[] = []; // The first `count` are live; the rest are kept for reuse
+  private count = 0;
+  private trauma = 0; // 0..1, shake grows with its square
+  private flash = 0; // Current flash alpha
+  private trailTimer = 0;
+
+  /** Listens to a simulation's events. Returns the unsubscribe function. */
+  attach(sim: Simulation): () => void {
+    this.clear();
+    return sim.subscribe(event => this.handle(event, sim.state));
+  }
+
+  clear() {
+    this.count = 0;
+    this.trauma = 0;
+    this.flash = 0;
+    this.trailTimer = 0;
+  }
+
+  private get particleScale(): number {
+    return this.settings.particles * (this.reducedMotion ? 0.5 : 1);
+  }
+
+  private handle(event: GameEvent, state: GameState) {
+    switch (event.type) {
+      case 'gameStarted':
+        this.clear();
+        break;
+      case 'status':
+        if (event.status === GameStatus.START) this.clear();
+        break;
+      case 'interceptorLaunched': {
+        const x = state.layout.batteries[event.battery].x;
+        this.burst(x, groundY(state, x) - 25, MUZZLE, 3);
+        break;
+      }
+      case 'explosion':
+        if (!event.chain) this.burst(event.pos.x, event.pos.y, SPARKS, 4);
+        break;
+      case 'enemyDestroyed': {
+        const big = event.kind === 'bomber' || event.kind === 'mirv';
+        this.burst(event.pos.x, event.pos.y, DEBRIS, big ? 20 : 10);
+        this.burst(event.pos.x, event.pos.y, SPARKS, 6);
+        this.shake(big ? 0.12 : 0.05);
+        if (event.combo >= 3) this.flashScreen(0.08 * event.combo);
+        break;
+      }
+      case 'powerUpCollected':
+        this.burst(event.pos.x, event.pos.y, SPARKS, 12);
+        if (event.kind === 'emp') this.flashScreen(0.6);
+        break;
+      case 'cityDestroyed':
+        this.ruin(state.layout.cities[event.index], state, 30);
+        this.shake(0.6);
+        this.flashScreen(0.5);
+        break;
+      case 'batteryDestroyed':
+        this.ruin(state.layout.batteries[event.index].x, state, 24);
+        this.shake(0.5);
+        this.flashScreen(0.4);
+        break;
+    }
+  }
+
+  private ruin(x: number, state: GameState, rubble: number) {
+    const gy = groundY(state, x);
+    this.burst(x, gy - 12, RUBBLE, rubble, gy);
+    this.burst(x, gy - 10, DUST, 10);
+  }
+
+  private shake(amount: number) {
+    this.trauma = Math.min(1, this.trauma + amount);
+  }
+
+  private flashScreen(amount: number) {
+    this.flash = Math.max(this.flash, Math.min(1, amount));
+  }
+
+  /** Spawns `count` particles (before intensity scaling) that bounce off `floor`. */
+  private burst(x: number, y: number, spec: ParticleSpec, count: number, floor = Infinity) {
+    const scaled = Math.round(count * this.particleScale);
+    const [minAngle, maxAngle] = spec.angle ?? [0, Math.PI * 2];
+    const spread = spec.spread ?? 0;
+    for (let i = 0; i < scaled && this.count < MAX_PARTICLES; i++) {
+      let p = this.particles[this.count];
+      if (!p) {
+        p = {} as Particle;
+        this.particles.push(p);
+      }
+      this.count++;
+      const angle = rand(minAngle, maxAngle);
+      const speed = rand(spec.speed[0], spec.speed[1]);
+      p.x = x + rand(-spread, spread);
+      p.y = y + rand(-spread, spread) * 0.5;
+      p.vx = Math.cos(angle) * speed;
+      p.vy = Math.sin(angle) * speed;
+      p.age = 0;
+      p.life = rand(spec.life[0], spec.life[1]);
+      p.size = rand(spec.size[0], spec.size[1]);
+      p.grow = spec.grow ?? 0;
+      p.gravity = spec.gravity ?? 0;
+      p.drag = spec.drag ?? 0;
+      p.floor = floor;
+      p.color = spec.colors[Math.floor(Math.random() * spec.colors.length)];
+    }
+  }
+
+  /** Advances particles, shake and flash. Pass 0 while the game is paused. */
+  update(dt: number, state: GameState) {
+    if (dt <= 0) return;
+
+    if (!this.reducedMotion && this.particleScale > 0 && state.status === GameStatus.PLAYING) {
+      this.trailTimer += dt;
+      while (this.trailTimer >= TRAIL_INTERVAL) {
+        this.trailTimer -= TRAIL_INTERVAL;
+        for (const enemy of state.enemies) {
+          if (!(enemy instanceof Bomber)) this.burst(enemy.pos.x, enemy.pos.y, TRAIL, 1);
+        }
+      }
+    }
+
+    for (let i = 0; i < this.count; i++) {
+      const p = this.particles[i];
+      p.age += dt;
+      if (p.age >= p.life) {
+        // Swap the dead particle out of the live range
+        this.particles[i] = this.particles[this.count - 1];
+        this.particles[this.count - 1] = p;
+        this.count--;
+        i--;
+        continue;
+      }
+      const damping = Math.max(0, 1 - p.drag * dt);
+      p.vx *= damping;
+      p.vy = p.vy * damping + p.gravity * dt;
+      p.x += p.vx * dt;
+      p.y += p.vy * dt;
+      p.size = Math.max(0.5, p.size + p.grow * dt);
+      if (p.y > p.floor) {
+        p.y = p.floor;
+        p.vy *= -0.3;
+        p.vx *= 0.6;
+      }
+    }
+
+    this.trauma = Math.max(0, this.trauma - TRAUMA_DECAY * dt);
+    this.flash = Math.max(0, this.flash - FLASH_DECAY * dt);
+  }
+
+  /** Where to draw the playfield this frame, in playfield px. */
+  shakeOffset(): Point {
+    const intensity = this.reducedMotion ? 0 : this.settings.shake;
+    const amount = this.trauma * this.trauma * MAX_SHAKE * intensity;
+    if (amount <= 0) return { x: 0, y: 0 };
+    return { x: rand(-amount, amount), y: rand(-amount, amount) };
+  }
+
+  /** Draws particles, in `palette`'s colors, and the flash over a frame already rendered for `state`. */
+  draw(ctx: CanvasRenderingContext2D, state: GameState, palette: Palette) {
+    for (let i = 0; i < this.count; i++) {
+      const p = this.particles[i];
+      ctx.globalAlpha = Math.max(0, 1 - p.age / p.life);
+      ctx.fillStyle = palette[p.color];
+      ctx.fillRect(p.x - p.size / 2, p.y - p.size / 2, p.size, p.size);
+    }
+    ctx.globalAlpha = 1;
+
+    const flash = this.reducedMotion ? 0 : this.flash * this.settings.flash;
+    if (flash > 0) {
+      ctx.fillStyle = `rgba(255, 255, 255, ${flash})`;
+      ctx.fillRect(0, 0, state.width, state.height);
+    }
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export const REDUCED_MOTION_OPTIONS = ['system', 'on', 'off'] as const;
+export type ReducedMotion = typeof REDUCED_MOTION_OPTIONS[number];
+
+export interface EffectsSettings {
+  particles: number; // 0..1, share of debris, sparks and smoke spawned
+  shake: number; // 0..1
+  flash: number; // 0..1
+  reducedMotion: ReducedMotion; // 'system' follows prefers-reduced-motion
+}
+
+const STORAGE_KEY = 'sun-light.effects';
+const STORAGE_VERSION = 1;
+
+export const DEFAULT_EFFECTS_SETTINGS: EffectsSettings = {
+  particles: 1,
+  shake: 0.7,
+  flash: 0.5,
+  reducedMotion: 'system'
+};
+
+function clampIntensity(value: unknown, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) ? Math.max(0, Math.min(1, value)) : fallback;
+}
+
+function isReducedMotionOption(value: unknown): value is ReducedMotion {
+  return typeof value === 'string' && (REDUCED_MOTION_OPTIONS as readonly string[]).includes(value);
+}
+
+/** Reads saved intensities, falling back to the defaults for anything missing or malformed. */
+export function loadEffectsSettings(): EffectsSettings {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return { ...DEFAULT_EFFECTS_SETTINGS };
+    const data = JSON.parse(raw);
+    if (data?.version !== STORAGE_VERSION) return { ...DEFAULT_EFFECTS_SETTINGS };
+    return {
+      particles: clampIntensity(data.particles, DEFAULT_EFFECTS_SETTINGS.particles),
+      shake: clampIntensity(data.shake, DEFAULT_EFFECTS_SETTINGS.shake),
+      flash: clampIntensity(data.flash, DEFAULT_EFFECTS_SETTINGS.flash),
+      reducedMotion: isReducedMotionOption(data.reducedMotion) ? data.reducedMotion : DEFAULT_EFFECTS_SETTINGS.reducedMotion
+    };
+  } catch {
+    return { ...DEFAULT_EFFECTS_SETTINGS };
+  }
+}
+
+export function saveEffectsSettings(settings: EffectsSettings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: STORAGE_VERSION, ...settings }));
+  } catch {
+    // Storage full or disabled; settings just won't persist
+  }
+}
+
+export const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+export function systemPrefersReducedMotion(): boolean {
+  return typeof window !== 'undefined' && typeof window.matchMedia === 'function' && window.matchMedia(REDUCED_MOTION_QUERY).matches;
+}
+
+/** Whether motion should be reduced, given the setting and the system preference. */
+export function isReducedMotion(settings: EffectsSettings, systemPrefers: boolean = systemPrefersReducedMotion()): boolean {
+  return settings.reducedMotion === 'system' ? systemPrefers : settings.reducedMotion === 'on';
+}
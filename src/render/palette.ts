@@ -0,0 +1,45 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/** 'standard' uses the active theme's colors; 'highContrast' replaces them. */
+export const PALETTE_IDS = ['standard', 'highContrast'] as const;
+export type PaletteId = typeof PALETTE_IDS[number];
+
+export const PALETTE_KEYS = [
+  'bg', 'stars', 'planet', 'planetShade', 'ground', 'enemy', 'interceptor', 'explosion',
+  'explosionCore', 'city', 'battery', 'ruins', 'ruinsShade', 'text', 'target'
+] as const;
+export type PaletteKey = typeof PALETTE_KEYS[number];
+
+/**
+ * Every color the playfield is drawn with, apart from sprite inks. `enemy`
+ * and `interceptor` color the trails, and the sprites too in high contrast.
+ */
+export type Palette = Record<PaletteKey, string>;
+
+// Pure black field with an amber/cyan pair that stays apart under the
+// common color-vision deficiencies; the scenery is dimmed so nothing in it
+// can be mistaken for a dog
+export const HIGH_CONTRAST_PALETTE: Palette = {
+  bg: '#000000',
+  stars: '#3a3a3a',
+  planet: '#1c1c1c',
+  planetShade: '#101010',
+  ground: '#808080',
+  enemy: '#ffb000',
+  interceptor: '#00d8ff',
+  explosion: '#ffffff',
+  explosionCore: '#00d8ff',
+  city: '#ffffff',
+  battery: '#00d8ff',
+  ruins: '#5a5a5a',
+  ruinsShade: '#8a8a8a',
+  text: '#ffffff',
+  target: '#ffffff'
+};
+
+export function isPaletteId(value: unknown): value is PaletteId {
+  return (PALETTE_IDS as readonly unknown[]).includes(value);
+}
@@ -0,0 +1,331 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { EnemyRocket, type Enemy, type Explosion, type InterceptorMissile, type PowerUp, type ScorePopup } from '../game/entities';
+import { canUseBattery, playerCount } from '../game/players';
+import { attackTarget, groundY, targetX, type GameState } from '../game/simulation';
+import { isInRound, type EnemyType, type Point } from '../game/types';
+import { HIGH_CONTRAST_PALETTE, type Palette } from './palette';
+import { drawPlanet, drawSprite } from './sprites';
+import { DEFAULT_THEME, type SpriteId, type Theme } from './theme';
+
+/** How the playfield is drawn; none of it touches the game itself. */
+export interface RenderOptions {
+  theme: Theme;
+  highContrast: boolean; // Fixed palette, and sprites drawn as solid silhouettes
+  textScale: number; // Applies to ammo counts, labels and score popups
+}
+
+export const DEFAULT_RENDER_OPTIONS: RenderOptions = { theme: DEFAULT_THEME, highContrast: false, textScale: 1 };
+
+export function renderPalette(options: RenderOptions): Palette {
+  return options.highContrast ? HIGH_CONTRAST_PALETTE : options.theme.palette;
+}
+
+function font(size: number, options: RenderOptions): string {
+  return `${Math.round(size * options.textScale)}px "Press Start 2P"`;
+}
+
+const ENEMY_SPRITES: Record<EnemyType, { sprite: SpriteId; size: number }> = {
+  rocket: { sprite: 'dog', size: 15 },
+  zigzag: { sprite: 'zigzag', size: 15 },
+  armored: { sprite: 'armored', size: 15 },
+  mirv: { sprite: 'mirv', size: 21 },
+  bomber: { sprite: 'bomber', size: 28 }
+};
+
+// --- Entities ---
+
+function drawEnemy(ctx: CanvasRenderingContext2D, enemy: Enemy, options: RenderOptions, palette: Palette) {
+  if (enemy instanceof EnemyRocket) {
+    ctx.beginPath();
+    ctx.strokeStyle = palette.enemy;
+    ctx.lineWidth = 3; // Doubled thickness
+    ctx.moveTo(enemy.start.x, enemy.start.y);
+    ctx.lineTo(enemy.pos.x, enemy.pos.y);
+    ctx.stroke();
+  }
+  
+  // Pixel Dog Head; an armored dog loses its helmet after the first hit
+  const { sprite, size } = ENEMY_SPRITES[enemy.kind];
+  const { sprites, inks } = options.theme;
+  const art = enemy.kind === 'armored' && enemy.hp < 2 ? sprites.dog : sprites[sprite];
+  drawSprite(ctx, enemy.pos.x, enemy.pos.y, size, art, inks, options.highContrast ? palette.enemy : undefined);
+}
+
+function drawInterceptor(ctx: CanvasRenderingContext2D, m: InterceptorMissile, options: RenderOptions, palette: Palette) {
+  ctx.beginPath();
+  ctx.strokeStyle = palette.interceptor;
+  ctx.lineWidth = 2; // Doubled thickness
+  ctx.moveTo(m.start.x, m.start.y);
+  ctx.lineTo(m.pos.x, m.pos.y);
+  ctx.stroke();
+  
+  // Pixel Cat Head
+  drawSprite(ctx, m.pos.x, m.pos.y, 15, options.theme.sprites.cat, options.theme.inks, options.highContrast ? palette.interceptor : undefined);
+
+  // Target marker
+  ctx.strokeStyle = palette.target;
+  ctx.beginPath();
+  const s = 6;
+  ctx.moveTo(m.target.x - s, m.target.y - s);
+  ctx.lineTo(m.target.x + s, m.target.y + s);
+  ctx.moveTo(m.target.x + s, m.target.y - s);
+  ctx.lineTo(m.target.x - s, m.target.y + s);
+  ctx.stroke();
+}
+
+function drawExplosion(ctx: CanvasRenderingContext2D, e: Explosion, palette: Palette) {
+  const alpha = Math.max(0, Math.min(1, e.radius / e.maxRadius));
+  ctx.beginPath();
+  // Square explosion for pixel feel
+  const s = e.radius * 1.5;
+  ctx.globalAlpha = alpha * 0.8;
+  ctx.fillStyle = palette.explosion;
+  ctx.fillRect(e.pos.x - s/2, e.pos.y - s/2, s, s);
+  
+  const s2 = e.radius * 0.8;
+  ctx.globalAlpha = alpha * 0.5;
+  ctx.fillStyle = palette.explosionCore;
+  ctx.fillRect(e.pos.x - s2/2, e.pos.y - s2/2, s2, s2);
+  ctx.globalAlpha = 1;
+}
+
+function drawPopup(ctx: CanvasRenderingContext2D, p: ScorePopup, options: RenderOptions, palette: Palette) {
+  const alpha = Math.max(0, 1 - p.age / p.lifetime);
+  ctx.globalAlpha = alpha;
+  ctx.fillStyle = palette.text;
+  ctx.font = font(p.combo > 1 ? 12 : 10, options);
+  ctx.textAlign = 'center';
+  ctx.fillText(`+${p.points}`, p.pos.x, p.pos.y);
+  if (p.combo > 1) {
+    ctx.font = font(8, options);
+    ctx.fillText(`x${p.combo}`, p.pos.x, p.pos.y + 12 * options.textScale);
+  }
+  ctx.globalAlpha = 1;
+}
+
+/** A crate under a parachute, marked with a glyph for what it does. */
+function drawPowerUp(ctx: CanvasRenderingContext2D, p: PowerUp, palette: Palette) {
+  const { x, y } = p.pos;
+  ctx.strokeStyle = palette.text;
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  ctx.arc(x, y - 16, 10, Math.PI, 0);
+  ctx.moveTo(x - 10, y - 16);
+  ctx.lineTo(x - 7, y - 7);
+  ctx.moveTo(x + 10, y - 16);
+  ctx.lineTo(x + 7, y - 7);
+  ctx.stroke();
+
+  ctx.fillStyle = palette.bg;
+  ctx.fillRect(x - 7, y - 7, 14, 14);
+  ctx.strokeStyle = palette.target;
+  ctx.lineWidth = 2;
+  ctx.strokeRect(x - 7, y - 7, 14, 14);
+
+  ctx.fillStyle = palette.text;
+  ctx.strokeStyle = palette.text;
+  ctx.beginPath();
+  switch (p.kind) {
+    case 'shield':
+      ctx.arc(x, y + 3, 5, Math.PI, 0);
+      ctx.fill();
+      break;
+    case 'emp':
+      ctx.moveTo(x + 2, y - 5);
+      ctx.lineTo(x - 3, y);
+      ctx.lineTo(x + 3, y);
+      ctx.lineTo(x - 2, y + 5);
+      ctx.stroke();
+      break;
+    case 'slowMo':
+      ctx.moveTo(x - 4, y - 4);
+      ctx.lineTo(x + 4, y - 4);
+      ctx.lineTo(x - 4, y + 4);
+      ctx.lineTo(x + 4, y + 4);
+      ctx.closePath();
+      ctx.fill();
+      break;
+    case 'ammo':
+      ctx.fillRect(x - 4, y - 3, 2, 7);
+      ctx.fillRect(x - 1, y - 3, 2, 7);
+      ctx.fillRect(x + 2, y - 3, 2, 7);
+      break;
+  }
+}
+
+/** Dome over a shielded city; it blinks for the last two seconds. */
+function drawShield(ctx: CanvasRenderingContext2D, x: number, gy: number, time: number, tick: number, palette: Palette) {
+  if (time < 2 && (tick >> 3) % 2 === 1) return;
+  ctx.globalAlpha = 0.15;
+  ctx.fillStyle = palette.interceptor;
+  ctx.beginPath();
+  ctx.arc(x, gy, 32, Math.PI, 0);
+  ctx.fill();
+  ctx.globalAlpha = 0.8;
+  ctx.strokeStyle = palette.interceptor;
+  ctx.lineWidth = 2;
+  ctx.stroke();
+  ctx.globalAlpha = 1;
+}
+
+// --- Scene ---
+
+function drawBackground(ctx: CanvasRenderingContext2D, width: number, height: number, theme: Theme, palette: Palette) {
+  ctx.fillStyle = palette.bg;
+  ctx.fillRect(0, 0, width, height);
+
+  // Draw Space Background
+  ctx.fillStyle = palette.stars;
+  for (let i = 0; i < theme.background.stars; i++) {
+    const x = (Math.sin(i * 123.45) * 0.5 + 0.5) * width;
+    const y = (Math.cos(i * 678.90) * 0.5 + 0.5) * height;
+    const size = (i % 3) + 1;
+    ctx.fillRect(x, y, size, size);
+  }
+  for (const planet of theme.background.planets) {
+    drawPlanet(ctx, width * planet.x, height * planet.y, planet.r, palette.planet, palette.planetShade);
+  }
+}
+
+/** Broken stumps left where a city or battery stood. */
+function drawRuins(ctx: CanvasRenderingContext2D, x: number, gy: number, palette: Palette) {
+  ctx.fillStyle = palette.ruins;
+  ctx.fillRect(x - 15, gy - 4, 30, 4);
+  ctx.fillStyle = palette.ruinsShade;
+  ctx.fillRect(x - 13, gy - 9, 6, 5);
+  ctx.fillRect(x - 3, gy - 12, 5, 8);
+  ctx.fillRect(x + 6, gy - 7, 7, 3);
+}
+
+/** The ground follows the terrain points; obstacles are solid blocks in the same color. */
+function drawTerrain(ctx: CanvasRenderingContext2D, state: GameState, palette: Palette) {
+  const { width, height, layout } = state;
+  const segments = layout.terrain.length - 1;
+  ctx.fillStyle = palette.ground;
+  ctx.beginPath();
+  ctx.moveTo(0, height);
+  layout.terrain.forEach((h, i) => ctx.lineTo((i / segments) * width, height - h));
+  ctx.lineTo(width, height);
+  ctx.closePath();
+  ctx.fill();
+
+  for (const o of layout.obstacles) {
+    ctx.fillStyle = palette.ground;
+    ctx.fillRect(o.x, o.y, o.width, o.height);
+    ctx.fillStyle = palette.ruinsShade;
+    ctx.fillRect(o.x, o.y, o.width, 3);
+    ctx.fillRect(o.x, o.y + o.height - 3, o.width, 3);
+  }
+}
+
+function drawStructures(ctx: CanvasRenderingContext2D, state: GameState, options: RenderOptions, palette: Palette) {
+  const { batteries } = state.layout;
+  drawTerrain(ctx, state, palette);
+
+  // Draw Cities
+  state.layout.cities.forEach((x, i) => {
+    const gy = groundY(state, x);
+    if (state.cities[i]) {
+      ctx.fillStyle = palette.city;
+      // Pixelated buildings
+      ctx.fillRect(x - 15, gy - 20, 10, 20);
+      ctx.fillRect(x - 5, gy - 30, 10, 30);
+      ctx.fillRect(x + 5, gy - 15, 10, 15);
+      if (state.shields[i] > 0) drawShield(ctx, x, gy, state.shields[i], state.tick, palette);
+    } else {
+      drawRuins(ctx, x, gy, palette);
+    }
+  });
+
+  // Draw Batteries
+  batteries.forEach(({ x }, i) => {
+    const gy = groundY(state, x);
+    if (state.batteries[i]) {
+      ctx.fillStyle = palette.battery;
+      // Pixelated battery
+      ctx.fillRect(x - 20, gy - 15, 40, 15);
+      ctx.fillRect(x - 5, gy - 25, 10, 10);
+      
+      // Ammo count text
+      ctx.fillStyle = palette.text;
+      ctx.font = font(12, options);
+      ctx.textAlign = 'center';
+      ctx.fillText(state.ammo[i].toString(), x, gy + 15);
+
+      // Who may fire from it in co-op
+      if (state.players === 'coop') {
+        const owners = Array.from({ length: playerCount(state.players) }, (_, p) => p)
+          .filter(p => canUseBattery(state.players, p, i, batteries.length))
+          .map(p => `P${p + 1}`);
+        ctx.font = font(8, options);
+        ctx.fillText(owners.join('+'), x, gy - 32);
+      }
+    } else {
+      drawRuins(ctx, x, gy, palette);
+    }
+  });
+}
+
+/**
+ * Draws one frame of the given simulation state. Pure read of `state`;
+ * never mutates it.
+ */
+export function renderGame(ctx: CanvasRenderingContext2D, state: GameState, options: RenderOptions = DEFAULT_RENDER_OPTIONS) {
+  const palette = renderPalette(options);
+  drawBackground(ctx, state.width, state.height, options.theme, palette);
+
+  if (isInRound(state.status)) {
+    state.interceptors.forEach(m => drawInterceptor(ctx, m, options, palette));
+    state.explosions.forEach(e => drawExplosion(ctx, e, palette));
+    state.enemies.forEach(e => drawEnemy(ctx, e, options, palette));
+    state.powerUps.forEach(p => drawPowerUp(ctx, p, palette));
+  }
+
+  drawStructures(ctx, state, options, palette);
+
+  if (isInRound(state.status)) {
+    state.popups.forEach(p => drawPopup(ctx, p, options, palette));
+  }
+}
+
+/** Versus: marks the city or battery the attacker's next dog would dive at. */
+export function drawAttackAim(ctx: CanvasRenderingContext2D, state: GameState, x: number, palette: Palette = DEFAULT_THEME.palette) {
+  const target = attackTarget(state, x);
+  if (target === -1) return;
+  const tx = targetX(state, target);
+  const gy = groundY(state, tx);
+
+  ctx.strokeStyle = palette.target;
+  ctx.lineWidth = 1;
+  ctx.setLineDash([4, 6]);
+  ctx.beginPath();
+  ctx.moveTo(x, 0);
+  ctx.lineTo(tx, gy - 35);
+  ctx.stroke();
+  ctx.setLineDash([]);
+  ctx.lineWidth = 2;
+  ctx.strokeRect(tx - 22, gy - 35, 44, 40);
+}
+
+/** Crosshair for keyboard/gamepad aiming. A crosshair held by aim assist gets a wider frame. */
+export function drawReticle(ctx: CanvasRenderingContext2D, pos: Point, palette: Palette = DEFAULT_THEME.palette, locked = false) {
+  const s = 10;
+  ctx.strokeStyle = palette.target;
+  ctx.lineWidth = 2;
+  if (locked) ctx.strokeRect(pos.x - s, pos.y - s, s * 2, s * 2);
+  ctx.strokeRect(pos.x - s / 2, pos.y - s / 2, s, s);
+  ctx.beginPath();
+  ctx.moveTo(pos.x - s * 1.5, pos.y);
+  ctx.lineTo(pos.x - s, pos.y);
+  ctx.moveTo(pos.x + s, pos.y);
+  ctx.lineTo(pos.x + s * 1.5, pos.y);
+  ctx.moveTo(pos.x, pos.y - s * 1.5);
+  ctx.lineTo(pos.x, pos.y - s);
+  ctx.moveTo(pos.x, pos.y + s);
+  ctx.lineTo(pos.x, pos.y + s * 1.5);
+  ctx.stroke();
+}
@@ -0,0 +1,91 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { accuracyPercent, type DailyResult } from '../game/daily';
+import { drawSprite } from './sprites';
+import type { Sprite, Theme } from './theme';
+
+export const CARD_WIDTH = 600;
+export const CARD_HEIGHT = 315;
+const FONT = '"Press Start 2P", monospace';
+
+export interface ResultCardLabels {
+  title: string;
+  heading: string; // e.g. "Daily Challenge"
+  score: string;
+  round: string;
+  accuracy: string;
+  assisted: string; // Shown only when the run had assists on
+}
+
+/** Themes may draw dark sprites, so the card outlines them to stay readable on black. */
+function drawOutlined(ctx: CanvasRenderingContext2D, x: number, y: number, size: number, sprite: Sprite, inks: readonly string[]) {
+  const w = size / 30;
+  for (const [dx, dy] of [[-w, 0], [w, 0], [0, -w], [0, w]]) {
+    drawSprite(ctx, x + dx, y + dy, size, sprite, inks, '#ffffff');
+  }
+  drawSprite(ctx, x, y, size, sprite, inks);
+}
+
+/**
+ * Draws a daily result as a pixel-art card: the cat, the numbers, and one
+ * fish per surviving city (a bone for each one lost), in the theme's sprites.
+ */
+export function drawResultCard(ctx: CanvasRenderingContext2D, result: DailyResult, labels: ResultCardLabels, theme: Theme) {
+  ctx.fillStyle = '#050505';
+  ctx.fillRect(0, 0, CARD_WIDTH, CARD_HEIGHT);
+  ctx.strokeStyle = '#ffffff';
+  ctx.lineWidth = 8;
+  ctx.strokeRect(4, 4, CARD_WIDTH - 8, CARD_HEIGHT - 8);
+
+  const { sprites, inks } = theme;
+  drawOutlined(ctx, 110, 130, 120, sprites.cat, inks);
+
+  ctx.fillStyle = '#ffffff';
+  ctx.textBaseline = 'top';
+  ctx.font = `20px ${FONT}`;
+  ctx.fillText(labels.title.toUpperCase(), 210, 40);
+  ctx.fillStyle = '#999999';
+  ctx.font = `10px ${FONT}`;
+  ctx.fillText(`${labels.heading} ${result.date}`, 210, 74);
+  if (result.assisted) ctx.fillText(`* ${labels.assisted}`, 210, 90);
+
+  ctx.fillStyle = '#ffffff';
+  ctx.font = `14px ${FONT}`;
+  const rows = [
+    `${labels.score}: ${result.score}`,
+    `${labels.round}: ${result.round}`,
+    `${labels.accuracy}: ${accuracyPercent(result)}%`
+  ];
+  rows.forEach((row, i) => ctx.fillText(row, 210, 110 + i * 30));
+
+  const spacing = CARD_WIDTH / (result.cities.length + 1);
+  result.cities.forEach((alive, i) => {
+    if (alive) drawOutlined(ctx, spacing * (i + 1), 260, 40, sprites.fish, inks);
+    else drawSprite(ctx, spacing * (i + 1), 260, 40, sprites.bone, inks, '#555555');
+  });
+}
+
+/** Renders the card off-screen and saves it as a PNG. */
+export async function downloadResultCard(result: DailyResult, labels: ResultCardLabels, theme: Theme) {
+  // Canvas text falls back to a system font until the pixel font has loaded
+  await document.fonts?.load(`14px ${FONT}`).catch(() => undefined);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = CARD_WIDTH;
+  canvas.height = CARD_HEIGHT;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  drawResultCard(ctx, result, labels, theme);
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) return;
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `sun-light-daily-${result.date}.png`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
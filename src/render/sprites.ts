@@ -0,0 +1,35 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Sprite } from './theme';
+
+// --- Helper for Pixel Art ---
+
+/**
+ * Draws an indexed sprite centered on (x, y), `size` pixels tall. Each ink
+ * index picks from `inks`; pass `solid` to draw every pixel in one color
+ * instead (silhouettes, high contrast).
+ */
+export function drawSprite(ctx: CanvasRenderingContext2D, x: number, y: number, size: number, sprite: Sprite, inks: readonly string[], solid?: string) {
+  const pixelSize = size / sprite.length;
+  const left = x - (sprite[0].length * pixelSize) / 2;
+  const top = y - size / 2;
+  for (let r = 0; r < sprite.length; r++) {
+    for (let c = 0; c < sprite[r].length; c++) {
+      const ink = sprite[r][c];
+      if (ink === 0) continue;
+      ctx.fillStyle = solid ?? inks[ink - 1];
+      ctx.fillRect(left + c * pixelSize, top + r * pixelSize, pixelSize, pixelSize);
+    }
+  }
+}
+
+export function drawPlanet(ctx: CanvasRenderingContext2D, x: number, y: number, r: number, color: string, shade: string) {
+  ctx.fillStyle = color;
+  ctx.fillRect(x - r, y - r, r * 2, r * 2);
+  ctx.fillStyle = shade;
+  ctx.fillRect(x - r * 0.6, y - r * 0.6, r * 0.4, r * 0.4);
+  ctx.fillRect(x + r * 0.2, y + r * 0.1, r * 0.5, r * 0.5);
+}
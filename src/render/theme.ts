@@ -0,0 +1,220 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import classicData from '../themes/classic.json';
+import spookyData from '../themes/spooky.json';
+import { PALETTE_KEYS, type Palette } from './palette';
+
+export const SPRITE_IDS = ['dog', 'zigzag', 'armored', 'mirv', 'bomber', 'cat', 'bone', 'fish'] as const;
+export type SpriteId = typeof SPRITE_IDS[number];
+
+/** Rows of ink indices: 0 is transparent, n is `inks[n - 1]`. */
+export type Sprite = number[][];
+
+/** Translation keys a theme may reword. */
+export const THEME_TEXT_KEYS = ['title', 'instructions', 'win', 'gameOver', 'lossDesc', 'defender', 'attacker'] as const;
+export type ThemeTextKey = typeof THEME_TEXT_KEYS[number];
+export type ThemeText = Partial<Record<ThemeTextKey, string>>;
+
+export interface Planet {
+  x: number; // 0..1 of the playfield width
+  y: number; // 0..1 of the playfield height
+  r: number;
+}
+
+export interface ThemeBackground {
+  stars: number;
+  planets: Planet[];
+}
+
+/**
+ * Everything that gives the game its look: sprites with their inks, the
+ * scene palette, the sky, and reworded flavor text per language. Themes are
+ * plain JSON, so they can be made in the editor and shared as files.
+ */
+export interface Theme {
+  id: string;
+  name: string;
+  inks: string[];
+  sprites: Record<SpriteId, Sprite>;
+  palette: Palette;
+  background: ThemeBackground;
+  text: Record<string, ThemeText>; // Keyed by language code
+}
+
+export const MAX_INKS = 8;
+export const MAX_SPRITE_SIZE = 16;
+export const MAX_STARS = 300;
+export const MAX_PLANETS = 8;
+
+export class ThemeError extends Error {
+  readonly path: string;
+
+  constructor(path: string, message: string) {
+    super(`${path}: ${message}`);
+    this.name = 'ThemeError';
+    this.path = path;
+  }
+}
+
+// --- Validation ---
+
+const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+function describe(value: unknown): string {
+  return value === undefined ? 'nothing' : JSON.stringify(value);
+}
+
+function expectObject(value: unknown, path: string): Record<string, unknown> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new ThemeError(path, `expected an object, got ${describe(value)}`);
+  }
+  return value as Record<string, unknown>;
+}
+
+function expectString(value: unknown, path: string): string {
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new ThemeError(path, `expected text, got ${describe(value)}`);
+  }
+  return value;
+}
+
+function expectColor(value: unknown, path: string): string {
+  if (typeof value !== 'string' || !HEX_COLOR.test(value)) {
+    throw new ThemeError(path, `expected a color like "#ff8800", got ${describe(value)}`);
+  }
+  // Color inputs only take the six-digit form
+  const hex = value.toLowerCase();
+  return hex.length === 4 ? `#${hex[1]}${hex[1]}${hex[2]}${hex[2]}${hex[3]}${hex[3]}` : hex;
+}
+
+function expectNumber(value: unknown, path: string, min: number, max: number, integer = false): number {
+  if (typeof value !== 'number' || !Number.isFinite(value) || (integer && !Number.isInteger(value))) {
+    throw new ThemeError(path, `expected a ${integer ? 'whole ' : ''}number, got ${describe(value)}`);
+  }
+  if (value < min || value > max) {
+    throw new ThemeError(path, `must be between ${min} and ${max}, got ${value}`);
+  }
+  return value;
+}
+
+function parseSprite(value: unknown, path: string, inks: number): Sprite {
+  if (!Array.isArray(value) || value.length === 0 || value.length > MAX_SPRITE_SIZE) {
+    throw new ThemeError(path, `expected 1 to ${MAX_SPRITE_SIZE} rows`);
+  }
+  const rows = value.map((row, r) => {
+    if (!Array.isArray(row) || row.length === 0 || row.length > MAX_SPRITE_SIZE) {
+      throw new ThemeError(`${path}[${r}]`, `expected 1 to ${MAX_SPRITE_SIZE} pixels`);
+    }
+    return row.map((ink, c) => expectNumber(ink, `${path}[${r}][${c}]`, 0, inks, true));
+  });
+  if (rows.some(row => row.length !== rows[0].length)) {
+    throw new ThemeError(path, 'every row needs the same number of pixels');
+  }
+  return rows;
+}
+
+function parseText(value: unknown, path: string): Record<string, ThemeText> {
+  const text: Record<string, ThemeText> = {};
+  for (const [lang, entries] of Object.entries(expectObject(value, path))) {
+    const messages: ThemeText = {};
+    for (const [key, message] of Object.entries(expectObject(entries, `${path}.${lang}`))) {
+      if (!(THEME_TEXT_KEYS as readonly string[]).includes(key)) {
+        throw new ThemeError(`${path}.${lang}.${key}`, `can't be reworded, expected one of ${THEME_TEXT_KEYS.join(', ')}`);
+      }
+      messages[key as ThemeTextKey] = expectString(message, `${path}.${lang}.${key}`);
+    }
+    text[lang] = messages;
+  }
+  return text;
+}
+
+/** Validates raw JSON against the theme schema. Throws `ThemeError` naming the bad field. */
+export function parseTheme(data: unknown): Theme {
+  const obj = expectObject(data, 'theme');
+  if (!Array.isArray(obj.inks) || obj.inks.length === 0 || obj.inks.length > MAX_INKS) {
+    throw new ThemeError('theme.inks', `expected 1 to ${MAX_INKS} colors`);
+  }
+  const inks = obj.inks.map((ink, i) => expectColor(ink, `theme.inks[${i}]`));
+
+  const spriteData = expectObject(obj.sprites, 'theme.sprites');
+  const sprites = {} as Record<SpriteId, Sprite>;
+  for (const id of SPRITE_IDS) {
+    sprites[id] = parseSprite(spriteData[id], `theme.sprites.${id}`, inks.length);
+  }
+
+  const paletteData = expectObject(obj.palette, 'theme.palette');
+  const palette = {} as Palette;
+  for (const key of PALETTE_KEYS) {
+    palette[key] = expectColor(paletteData[key], `theme.palette.${key}`);
+  }
+
+  const background = expectObject(obj.background, 'theme.background');
+  if (!Array.isArray(background.planets) || background.planets.length > MAX_PLANETS) {
+    throw new ThemeError('theme.background.planets', `expected a list of up to ${MAX_PLANETS} planets`);
+  }
+
+  return {
+    id: expectString(obj.id, 'theme.id'),
+    name: expectString(obj.name, 'theme.name'),
+    inks,
+    sprites,
+    palette,
+    background: {
+      stars: expectNumber(background.stars, 'theme.background.stars', 0, MAX_STARS, true),
+      planets: background.planets.map((planet, i) => {
+        const path = `theme.background.planets[${i}]`;
+        const p = expectObject(planet, path);
+        return {
+          x: expectNumber(p.x, `${path}.x`, 0, 1),
+          y: expectNumber(p.y, `${path}.y`, 0, 1),
+          r: expectNumber(p.r, `${path}.r`, 1, 200)
+        };
+      })
+    },
+    text: obj.text === undefined ? {} : parseText(obj.text, 'theme.text')
+  };
+}
+
+/** Pretty JSON with each sprite row kept on one line, so the art stays readable in a text editor. */
+export function serializeTheme(theme: Theme): string {
+  return JSON.stringify(theme, null, 2).replace(/\[\s+([\d,\s]+?)\s+\]/g, (_, row: string) => `[${row.split(/,\s*/).join(', ')}]`);
+}
+
+export function cloneTheme(theme: Theme): Theme {
+  return JSON.parse(JSON.stringify(theme));
+}
+
+// --- Editing ---
+
+/** Crops or pads (with transparent pixels) to `width` x `height`, keeping the top-left corner. */
+export function resizeSprite(sprite: Sprite, width: number, height: number): Sprite {
+  return Array.from({ length: height }, (_, r) => Array.from({ length: width }, (_, c) => sprite[r]?.[c] ?? 0));
+}
+
+/** Drops one ink. Pixels that used it turn transparent and later inks shift down. */
+export function removeInk(theme: Theme, index: number): Theme {
+  const ink = index + 1;
+  const sprites = {} as Record<SpriteId, Sprite>;
+  for (const id of SPRITE_IDS) {
+    sprites[id] = theme.sprites[id].map(row => row.map(p => (p === ink ? 0 : p > ink ? p - 1 : p)));
+  }
+  return { ...theme, inks: theme.inks.filter((_, i) => i !== index), sprites };
+}
+
+// --- Built-in Themes ---
+
+export const BUILTIN_THEMES: readonly Theme[] = [parseTheme(classicData), parseTheme(spookyData)];
+export const DEFAULT_THEME = BUILTIN_THEMES[0];
+
+export function isBuiltinTheme(id: string): boolean {
+  return BUILTIN_THEMES.some(theme => theme.id === id);
+}
+
+/** Lays a theme's flavor text for `lang` over a translation. */
+export function themeTranslation<T extends Record<ThemeTextKey, string>>(t: T, theme: Theme, lang: string): T {
+  const text = theme.text[lang];
+  return text ? { ...t, ...text } : t;
+}
@@ -0,0 +1,76 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Point } from '../game/types';
+
+const MIN_INTEGER_FILL = 0.85; // Integer scaling is used if it still covers this share of the best fit
+const LETTERBOX_COLOR = '#000000';
+
+/**
+ * How a playfield of `fieldWidth` x `fieldHeight` logical units sits on a
+ * canvas: uniformly scaled, centered, with bars on the sides that don't fit.
+ * `scale` and the offsets are in backing-store (device) pixels.
+ */
+export interface Viewport {
+  fieldWidth: number;
+  fieldHeight: number;
+  scale: number;
+  offsetX: number;
+  offsetY: number;
+  dpr: number; // Device pixels per CSS pixel
+}
+
+/**
+ * Fits a playfield into a `pixelWidth` x `pixelHeight` backing store. Whole
+ * multiples keep the pixel art crisp, so the largest integer factor is used
+ * unless it would leave much more than the best fractional fit empty.
+ */
+export function fitViewport(pixelWidth: number, pixelHeight: number, dpr: number, fieldWidth: number, fieldHeight: number): Viewport {
+  const fit = Math.max(0, Math.min(pixelWidth / fieldWidth, pixelHeight / fieldHeight));
+  const whole = Math.floor(fit);
+  const scale = whole >= 1 && whole / fit >= MIN_INTEGER_FILL ? whole : fit;
+  return {
+    fieldWidth,
+    fieldHeight,
+    scale,
+    offsetX: Math.round((pixelWidth - fieldWidth * scale) / 2),
+    offsetY: Math.round((pixelHeight - fieldHeight * scale) / 2),
+    dpr
+  };
+}
+
+/** Sizes the canvas backing store to its CSS box times the device pixel ratio. */
+export function syncBackingStore(canvas: HTMLCanvasElement, dpr: number) {
+  const width = Math.max(1, Math.round(canvas.clientWidth * dpr));
+  const height = Math.max(1, Math.round(canvas.clientHeight * dpr));
+  if (canvas.width !== width) canvas.width = width;
+  if (canvas.height !== height) canvas.height = height;
+}
+
+/**
+ * Paints the letterbox and leaves `ctx` drawing in playfield units, clipped
+ * to the playfield. Pair with `ctx.restore()`.
+ */
+export function beginViewport(ctx: CanvasRenderingContext2D, view: Viewport) {
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.fillStyle = LETTERBOX_COLOR;
+  ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+  ctx.save();
+  ctx.translate(view.offsetX, view.offsetY);
+  ctx.scale(view.scale, view.scale);
+  ctx.beginPath();
+  ctx.rect(0, 0, view.fieldWidth, view.fieldHeight);
+  ctx.clip();
+  ctx.imageSmoothingEnabled = false;
+}
+
+/** Maps a point in CSS pixels relative to the canvas into playfield units, or null on the letterbox. */
+export function toPlayfield(view: Viewport, cssX: number, cssY: number): Point | null {
+  if (view.scale <= 0) return null;
+  const x = (cssX * view.dpr - view.offsetX) / view.scale;
+  const y = (cssY * view.dpr - view.offsetY) / view.scale;
+  if (x < 0 || y < 0 || x > view.fieldWidth || y > view.fieldHeight) return null;
+  return { x, y };
+}
@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { CITY_COUNT } from '../game/constants';
+import type { DailyResult } from '../game/daily';
+
+const STORAGE_KEY = 'sun-light.daily';
+const STORAGE_VERSION = 1;
+const KEEP_DAYS = 60;
+
+function isResult(value: unknown): value is DailyResult {
+  const r = value as DailyResult | null;
+  return !!r && typeof r === 'object' &&
+    typeof r.date === 'string' &&
+    Number.isFinite(r.seed) &&
+    Number.isFinite(r.score) &&
+    Number.isFinite(r.round) &&
+    Array.isArray(r.cities) && r.cities.length === CITY_COUNT &&
+    Number.isFinite(r.shots) &&
+    Number.isFinite(r.hits) &&
+    typeof r.finished === 'boolean' &&
+    (r.assisted === undefined || typeof r.assisted === 'boolean');
+}
+
+/** Every recorded attempt, oldest first. Bad entries are dropped. */
+export function loadDailyResults(): DailyResult[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const data = JSON.parse(raw);
+    if (data?.version !== STORAGE_VERSION || !Array.isArray(data.results)) return [];
+    return data.results.filter(isResult);
+  } catch {
+    return [];
+  }
+}
+
+export function getDailyResult(date: string): DailyResult | null {
+  return loadDailyResults().find(r => r.date === date) ?? null;
+}
+
+/** Adds or replaces the attempt for `result.date`. */
+export function saveDailyResult(result: DailyResult) {
+  const results = loadDailyResults().filter(r => r.date !== result.date);
+  results.push(result);
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: STORAGE_VERSION, results: results.slice(-KEEP_DAYS) }));
+  } catch {
+    // Storage full or disabled; the attempt just isn't remembered
+  }
+}
+
+/** Finds the attempt a running daily game belongs to by its seed. */
+export function findDailyResult(seed: number): DailyResult | null {
+  return loadDailyResults().find(r => r.seed === seed) ?? null;
+}
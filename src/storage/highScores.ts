@@ -0,0 +1,101 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { isLang } from '../i18n';
+
+export interface HighScoreEntry {
+  initials: string;
+  score: number;
+  round: number;
+  cities: number; // Cities still standing at the end
+  date: string; // ISO timestamp
+  lang: string;
+  assisted?: boolean; // Played with slower speed, bigger blasts or aim assist
+}
+
+/** Each mode/difficulty pair keeps its own top-10. */
+export interface BoardId {
+  mode: string;
+  difficulty: string;
+}
+
+export type HighScoreBoards = Record<string, HighScoreEntry[]>;
+
+export const BOARD_SIZE = 10;
+export const INITIALS_LENGTH = 3;
+
+const STORAGE_KEY = 'sun-light.highscores';
+const STORAGE_VERSION = 1;
+
+export function boardKey(board: BoardId): string {
+  return `${board.mode}:${board.difficulty}`;
+}
+
+function isEntry(value: unknown): value is HighScoreEntry {
+  const e = value as HighScoreEntry | null;
+  return !!e && typeof e === 'object' &&
+    typeof e.initials === 'string' &&
+    Number.isFinite(e.score) &&
+    Number.isFinite(e.round) &&
+    Number.isFinite(e.cities) &&
+    typeof e.date === 'string' &&
+    isLang(e.lang) && // The table formats dates in it, and an unknown locale throws
+    (e.assisted === undefined || typeof e.assisted === 'boolean');
+}
+
+function sortBoard(entries: HighScoreEntry[]): HighScoreEntry[] {
+  return [...entries].sort((a, b) => b.score - a.score || b.round - a.round).slice(0, BOARD_SIZE);
+}
+
+/**
+ * Reads every board from localStorage. Malformed entries are dropped one by
+ * one; unreadable or unknown-version data yields empty boards, never a crash.
+ */
+export function loadHighScores(): HighScoreBoards {
+  const boards: HighScoreBoards = {};
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return boards;
+    const data = JSON.parse(raw);
+    if (data?.version !== STORAGE_VERSION || !data.boards || typeof data.boards !== 'object') return boards;
+    for (const [key, entries] of Object.entries(data.boards)) {
+      if (Array.isArray(entries)) {
+        boards[key] = sortBoard(entries.filter(isEntry));
+      }
+    }
+  } catch {
+    // Corrupted storage; start with empty boards
+  }
+  return boards;
+}
+
+function saveHighScores(boards: HighScoreBoards) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: STORAGE_VERSION, boards }));
+  } catch {
+    // Storage full or disabled; scores just won't persist
+  }
+}
+
+export function getBoard(boards: HighScoreBoards, board: BoardId): HighScoreEntry[] {
+  return boards[boardKey(board)] ?? [];
+}
+
+/** Whether `score` would make it onto the board. */
+export function qualifies(boards: HighScoreBoards, board: BoardId, score: number): boolean {
+  if (score <= 0) return false;
+  const entries = getBoard(boards, board);
+  return entries.length < BOARD_SIZE || score > entries[entries.length - 1].score;
+}
+
+/** Adds an entry, persists all boards and returns them with the new entry's rank (0-based, -1 if it fell off). */
+export function addHighScore(board: BoardId, entry: HighScoreEntry): { boards: HighScoreBoards; rank: number } {
+  const boards = loadHighScores();
+  const key = boardKey(board);
+  const next = sortBoard([...(boards[key] ?? []), entry]);
+  boards[key] = next;
+  saveHighScores(boards);
+  return { boards, rank: next.indexOf(entry) };
+}
@@ -0,0 +1,29 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { isLang, type Lang } from '../i18n';
+
+const STORAGE_KEY = 'sun-light.lang';
+const STORAGE_VERSION = 1;
+
+/** The language the player picked, or null to follow the browser. */
+export function loadLangPreference(): Lang | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    const data = JSON.parse(raw);
+    return data?.version === STORAGE_VERSION && isLang(data.lang) ? data.lang : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveLangPreference(lang: Lang) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: STORAGE_VERSION, lang }));
+  } catch {
+    // Storage full or disabled; the choice just won't persist
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { BUILTIN_LEVELS, DEFAULT_LEVEL, parseLevel, type Level } from '../game/level';
+
+const STORAGE_KEY = 'sun-light.levels';
+const STORAGE_VERSION = 1;
+
+/** The player's own levels and which one the editor has open. */
+export interface LevelLibrary {
+  selected: string; // Level id, built-in or custom
+  custom: Level[];
+}
+
+export const EMPTY_LEVEL_LIBRARY: LevelLibrary = { selected: DEFAULT_LEVEL.id, custom: [] };
+
+/** Reads the saved library. Custom levels that no longer validate are dropped. */
+export function loadLevelLibrary(): LevelLibrary {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return { ...EMPTY_LEVEL_LIBRARY };
+    const data = JSON.parse(raw);
+    if (data?.version !== STORAGE_VERSION || !Array.isArray(data.custom)) return { ...EMPTY_LEVEL_LIBRARY };
+    const custom: Level[] = [];
+    for (const entry of data.custom) {
+      try {
+        custom.push(parseLevel(entry));
+      } catch {
+        // Skip it; one broken level shouldn't cost the rest
+      }
+    }
+    const library = { selected: typeof data.selected === 'string' ? data.selected : DEFAULT_LEVEL.id, custom };
+    return { ...library, selected: selectedLevel(library).id };
+  } catch {
+    return { ...EMPTY_LEVEL_LIBRARY };
+  }
+}
+
+export function saveLevelLibrary(library: LevelLibrary) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: STORAGE_VERSION, ...library }));
+  } catch {
+    // Storage full or disabled; custom levels just won't persist
+  }
+}
+
+export function allLevels(library: LevelLibrary): Level[] {
+  return [...BUILTIN_LEVELS, ...library.custom];
+}
+
+/** The selected level, or the default if it has gone missing. */
+export function selectedLevel(library: LevelLibrary): Level {
+  return allLevels(library).find(level => level.id === library.selected) ?? DEFAULT_LEVEL;
+}
+
+/** An id no level in the library uses yet, based on `base`. */
+export function uniqueLevelId(library: LevelLibrary, base: string): string {
+  const stem = base.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'level';
+  const taken = new Set(allLevels(library).map(level => level.id));
+  if (!taken.has(stem)) return stem;
+  let n = 2;
+  while (taken.has(`${stem}-${n}`)) n++;
+  return `${stem}-${n}`;
+}
@@ -0,0 +1,37 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { createSave, parseSave, serializeSave, type LoadedGame } from '../game/save';
+import type { Replay } from '../game/replay';
+import type { GameState } from '../game/simulation';
+
+const STORAGE_KEY = 'sun-light.save';
+
+/** Reads the saved game, or null if there is none or it can't be used. */
+export function loadSavedGame(): LoadedGame | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? parseSave(raw) : null;
+  } catch {
+    // Corrupted or from an unknown version; treat as no save
+    return null;
+  }
+}
+
+export function storeSavedGame(state: GameState, replay: Replay | null) {
+  try {
+    localStorage.setItem(STORAGE_KEY, serializeSave(createSave(state, replay)));
+  } catch {
+    // Storage full or disabled; the game just can't be resumed
+  }
+}
+
+export function clearSavedGame() {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Storage disabled; nothing to clear
+  }
+}
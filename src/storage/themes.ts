@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { BUILTIN_THEMES, DEFAULT_THEME, parseTheme, type Theme } from '../render/theme';
+
+const STORAGE_KEY = 'sun-light.themes';
+const STORAGE_VERSION = 1;
+
+/** The player's own themes and which theme is in use. */
+export interface ThemeLibrary {
+  selected: string; // Theme id, built-in or custom
+  custom: Theme[];
+}
+
+export const EMPTY_THEME_LIBRARY: ThemeLibrary = { selected: DEFAULT_THEME.id, custom: [] };
+
+/** Reads the saved library. Custom themes that no longer validate are dropped. */
+export function loadThemeLibrary(): ThemeLibrary {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return { ...EMPTY_THEME_LIBRARY };
+    const data = JSON.parse(raw);
+    if (data?.version !== STORAGE_VERSION || !Array.isArray(data.custom)) return { ...EMPTY_THEME_LIBRARY };
+    const custom: Theme[] = [];
+    for (const entry of data.custom) {
+      try {
+        custom.push(parseTheme(entry));
+      } catch {
+        // Skip it; one broken theme shouldn't cost the rest
+      }
+    }
+    const library = { selected: typeof data.selected === 'string' ? data.selected : DEFAULT_THEME.id, custom };
+    return { ...library, selected: activeTheme(library).id };
+  } catch {
+    return { ...EMPTY_THEME_LIBRARY };
+  }
+}
+
+export function saveThemeLibrary(library: ThemeLibrary) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: STORAGE_VERSION, ...library }));
+  } catch {
+    // Storage full or disabled; custom themes just won't persist
+  }
+}
+
+export function allThemes(library: ThemeLibrary): Theme[] {
+  return [...BUILTIN_THEMES, ...library.custom];
+}
+
+/** The selected theme, or the default if it has gone missing. */
+export function activeTheme(library: ThemeLibrary): Theme {
+  return allThemes(library).find(theme => theme.id === library.selected) ?? DEFAULT_THEME;
+}
+
+/** An id no theme in the library uses yet, based on `base`. */
+export function uniqueThemeId(library: ThemeLibrary, base: string): string {
+  const stem = base.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'theme';
+  const taken = new Set(allThemes(library).map(theme => theme.id));
+  if (!taken.has(stem)) return stem;
+  let n = 2;
+  while (taken.has(`${stem}-${n}`)) n++;
+  return `${stem}-${n}`;
+}